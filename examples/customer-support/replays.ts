@@ -0,0 +1,283 @@
+/**
+ * Customer Support Replays
+ *
+ * Tool outputs replayed through the effects of the wrapped tools
+ * (`pnpm replay --filter customer-support`). No LLM involved.
+ */
+
+import type { WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import { defineReplays } from '../../src/replay.js';
+import { invariants, simulations } from './agent.js';
+
+const address = { street: '1 Main St', city: 'Springfield', state: 'IL', zip: '62701', country: 'US' };
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    orderId: 'ORD-1',
+    customerName: 'Maria Garcia',
+    email: 'maria.garcia@example.com',
+    items: [{ productId: 'SKU-101', name: 'Wireless Headphones', quantity: 1, price: 100 }],
+    total: 100,
+    status: 'shipped',
+    shippingAddress: address,
+    orderDate: '2025-03-01',
+    ...overrides,
+  };
+}
+
+/** What lookupOrder returns: one page holding the given orders. */
+function orderPage(...orders: ReturnType<typeof order>[]) {
+  return { orders, page: 1, pageSize: 5, totalOrders: orders.length, hasMore: false };
+}
+
+function verification(overrides: Record<string, unknown> = {}) {
+  return {
+    verificationId: 'VER-1',
+    orderId: 'ORD-1',
+    method: 'email',
+    verified: true,
+    verifiedDate: '2025-03-05',
+    ...overrides,
+  };
+}
+
+function refund(overrides: Record<string, unknown> = {}) {
+  return {
+    refundId: 'RF-1',
+    orderId: 'ORD-1',
+    amount: 40,
+    reason: 'Damaged',
+    status: 'approved',
+    processedDate: '2025-03-05',
+    ...overrides,
+  };
+}
+
+function addressUpdate(overrides: Record<string, unknown> = {}) {
+  return {
+    updateId: 'UPD-1',
+    orderId: 'ORD-1',
+    oldAddress: address,
+    newAddress: { ...address, street: '9 Elm St' },
+    status: 'updated',
+    updatedDate: '2025-03-05',
+    ...overrides,
+  };
+}
+
+function ticket(overrides: Record<string, unknown> = {}) {
+  return {
+    ticketId: 'TCK-1',
+    orderId: 'ORD-1',
+    category: 'damaged_item',
+    priority: 'normal',
+    summary: 'Headphones arrived with a cracked headband; customer wants a replacement',
+    status: 'open',
+    createdDate: '2025-03-05',
+    ...overrides,
+  };
+}
+
+function orderStatus(expected: string) {
+  return (world: WorldStateAccessor) => {
+    const status = world.getEntity('orders', 'ORD-1')?.data.status;
+    return status === expected ? [] : [`expected order status ${expected}, got ${status}`];
+  };
+}
+
+export const replays = defineReplays({
+  id: 'customer-support',
+  simulations,
+  invariants,
+  cases: [
+    {
+      name: 'a looked-up order is stored with a masked email',
+      steps: [{ tool: 'lookupOrder', output: orderPage(order()) }],
+      expect: (world) => {
+        const email = world.getEntity('orders', 'ORD-1')?.data.email as string;
+        return email.startsWith('maria') ? [`expected the email to be masked, got ${email}`] : [];
+      },
+    },
+    {
+      name: 'an order looked up by a tokenized email keeps the token to verify against',
+      steps: [{ tool: 'lookupOrder', output: orderPage(order({ email: 'tok_email_0123456789ab' })) }],
+      expect: (world) => {
+        const data = world.getEntity('orders', 'ORD-1')?.data;
+        return data?.emailToken === 'tok_email_0123456789ab' && data.email !== data.emailToken
+          ? []
+          : [`expected the token next to a masked email, got ${JSON.stringify(data)}`];
+      },
+    },
+    {
+      name: 'an email lookup stores every order on the page',
+      steps: [
+        {
+          tool: 'lookupOrder',
+          output: orderPage(
+            order(),
+            order({ orderId: 'ORD-2', status: 'delivered', orderDate: '2025-02-10' }),
+            order({ orderId: 'ORD-3', status: 'pending', orderDate: '2025-01-20' })
+          ),
+        },
+      ],
+      expect: (world) => {
+        const ids = [...world.getCollection('orders').keys()].sort().join(', ');
+        return ids === 'ORD-1, ORD-2, ORD-3' ? [] : [`expected ORD-1, ORD-2 and ORD-3, got ${ids}`];
+      },
+    },
+    {
+      name: 'an empty page stores nothing',
+      steps: [{ tool: 'lookupOrder', output: orderPage() }],
+      expect: (world) => (world.getCollection('orders').size === 0 ? [] : ['expected no orders']),
+    },
+    {
+      name: 'a partial refund leaves the order partially refunded',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund() },
+      ],
+      expect: orderStatus('partially_refunded'),
+    },
+    {
+      name: 'a refund of the total closes the order',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund({ amount: 100 }) },
+      ],
+      expect: orderStatus('refunded'),
+    },
+    {
+      name: 'a partial refund, then the rest, closes the order',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund() },
+        { tool: 'processRefund', output: refund({ refundId: 'RF-2', amount: 60 }) },
+      ],
+      expect: orderStatus('refunded'),
+    },
+    {
+      name: 'a rejected refund leaves the order open',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund({ amount: 100, status: 'rejected' }) },
+      ],
+      expect: orderStatus('shipped'),
+    },
+    {
+      name: 'refunding more than the total is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund({ amount: 80 }) },
+        { tool: 'processRefund', output: refund({ refundId: 'RF-2', amount: 70 }) },
+      ],
+      violates: ['refunds-within-order-total'],
+    },
+    {
+      name: 'the same refund issued twice is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund() },
+        { tool: 'processRefund', output: refund({ refundId: 'RF-2' }) },
+      ],
+      violates: ['no-duplicate-writes'],
+    },
+    {
+      name: 'refunds of the same amount for different reasons are not duplicates',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund() },
+        { tool: 'processRefund', output: refund({ refundId: 'RF-2', reason: 'Missing item' }) },
+      ],
+      expect: orderStatus('partially_refunded'),
+    },
+    {
+      name: 'refunds of the same amount on two orders are not duplicates',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order(), order({ orderId: 'ORD-2' })) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'verifyCustomer', output: verification({ verificationId: 'VER-2', orderId: 'ORD-2' }) },
+        { tool: 'processRefund', output: refund() },
+        { tool: 'processRefund', output: refund({ refundId: 'RF-2', orderId: 'ORD-2' }) },
+      ],
+    },
+    {
+      name: 'a refund past the return window is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order({ status: 'delivered' })) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund({ processedDate: '2025-06-01' }) },
+      ],
+      violates: ['refund-within-return-window'],
+    },
+    {
+      name: 'changing the address of a delivered order is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order({ status: 'delivered' })) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'updateShippingAddress', output: addressUpdate() },
+      ],
+      violates: ['address-change-before-delivery'],
+    },
+    {
+      name: 'a ticket is linked to its order',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order({ status: 'damaged' })) },
+        { tool: 'createSupportTicket', output: ticket() },
+      ],
+      expect: (world) => {
+        const ticketId = world.getEntity('orders', 'ORD-1')?.data.ticketId;
+        return ticketId === 'TCK-1' ? [] : [`expected the order to link TCK-1, got ${ticketId}`];
+      },
+    },
+    {
+      name: 'a second open ticket on the same order is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order({ status: 'lost' })) },
+        { tool: 'createSupportTicket', output: ticket({ category: 'missing_package' }) },
+        { tool: 'createSupportTicket', output: ticket({ ticketId: 'TCK-2', category: 'missing_package' }) },
+      ],
+      violates: ['one-open-ticket-per-order'],
+    },
+    {
+      name: 'tickets without an order are allowed',
+      steps: [
+        { tool: 'createSupportTicket', output: ticket({ orderId: undefined, category: 'complaint' }) },
+        { tool: 'createSupportTicket', output: ticket({ ticketId: 'TCK-2', orderId: undefined, category: 'other' }) },
+      ],
+    },
+    {
+      name: 'a refund without verifying the customer is caught',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'processRefund', output: refund() },
+      ],
+      violates: ['writes-require-verification'],
+    },
+    {
+      name: 'a failed verification does not allow an address change',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'verifyCustomer', output: verification({ method: 'postalCode', verified: false }) },
+        { tool: 'updateShippingAddress', output: addressUpdate() },
+      ],
+      violates: ['writes-require-verification'],
+    },
+    {
+      name: 'verifying one order does not cover another',
+      steps: [
+        { tool: 'lookupOrder', output: orderPage(order()) },
+        { tool: 'lookupOrder', output: orderPage(order({ orderId: 'ORD-2' })) },
+        { tool: 'verifyCustomer', output: verification() },
+        { tool: 'processRefund', output: refund({ orderId: 'ORD-2' }) },
+      ],
+      violates: ['writes-require-verification'],
+    },
+  ],
+});
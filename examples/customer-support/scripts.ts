@@ -0,0 +1,34 @@
+/**
+ * Customer Support Scripts
+ *
+ * Tool-call sequences the offline stub model replays
+ * (`AGENT_PROVIDER=stub AGENT_SCRIPT=happy-path`).
+ */
+
+import type { ChatScript } from '../../src/scripted-model.js';
+
+/** Look up an open order, verify the customer, refund it in full, confirm. */
+const happyPath: ChatScript = [
+  { toolCalls: [{ name: 'lookupOrder', args: { orderId: 'ORD-1001' } }] },
+  {
+    toolCalls: [{ name: 'verifyCustomer', args: { orderId: 'ORD-1001', email: 'maria.garcia@example.com' } }],
+  },
+  {
+    toolCalls: [
+      {
+        name: 'processRefund',
+        args: { orderId: 'ORD-1001', reason: 'Item arrived damaged', idempotencyKey: 'happy-path-refund' },
+      },
+    ],
+  },
+  {
+    reply: (results) => {
+      const refund = results.at(-1) as { refundId?: string; amount?: number };
+      return `I've processed your refund of $${refund.amount?.toFixed(2)} (reference ${refund.refundId}).`;
+    },
+  },
+];
+
+export const scripts: Record<string, ChatScript> = {
+  'happy-path': happyPath,
+};
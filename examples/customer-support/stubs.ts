@@ -0,0 +1,85 @@
+/**
+ * Customer Support Stub Runs
+ *
+ * Scripted runs through the agent's full tool stack against the mock API
+ * (`pnpm stub --filter customer-support`). No LLM involved.
+ */
+
+import { defineStubs } from '../../src/stub-run.js';
+import { toolCalls } from '../../src/trajectory.js';
+import { tools } from './agent.js';
+import { scripts } from './scripts.js';
+
+const clock = { now: '2025-03-03T09:00:00-08:00', timeZone: 'America/Los_Angeles' };
+
+// Maria's third-newest order in the mock API, placed 41 to 54 days ago
+const OLD_ORDER = 'ORD-1003';
+const EMAIL = 'maria.garcia@example.com';
+
+interface OrderPage {
+  orders: { orderId: string }[];
+  hasMore: boolean;
+}
+
+export const stubs = defineStubs({
+  id: 'customer-support',
+  tools,
+  cases: [
+    {
+      name: 'the happy-path script verifies by the tokenized email and refunds',
+      script: scripts['happy-path'],
+      expect: ({ response, state }) => {
+        const failed = toolCalls(response.trajectory).filter((call) => call.failed);
+        const verified = Object.values(state.verifications).filter((v) => (v as { verified: boolean }).verified);
+        const refunds = Object.keys(state.refunds).length;
+        return [
+          ...failed.map((call) => `${call.name} failed: ${JSON.stringify(call.result)}`),
+          ...(verified.length !== 1 ? ['the API did not verify the customer by email'] : []),
+          ...(refunds !== 1 ? [`the API holds ${refunds} refunds`] : []),
+        ];
+      },
+    },
+    {
+      name: 'the API refuses a refund past the return window',
+      clock,
+      script: [
+        { toolCalls: [{ name: 'verifyCustomer', args: { orderId: OLD_ORDER, email: EMAIL } }] },
+        {
+          toolCalls: [
+            {
+              name: 'processRefund',
+              args: { orderId: OLD_ORDER, reason: 'Changed my mind', idempotencyKey: 'late-refund' },
+            },
+          ],
+        },
+        { reply: 'That order is past the return window.' },
+      ],
+      expect: ({ response, state }) => {
+        const refund = toolCalls(response.trajectory).find((call) => call.name === 'processRefund');
+        const code = (refund?.result as { error?: { code?: string } } | undefined)?.error?.code;
+        return [
+          ...(code !== 'outside_return_window' ? [`expected a return window error, got ${JSON.stringify(refund?.result)}`] : []),
+          ...(Object.keys(state.refunds).length > 0 ? ['the API issued a refund'] : []),
+        ];
+      },
+    },
+    {
+      name: 'an email lookup pages through more orders than one page holds',
+      clock,
+      script: [
+        { toolCalls: [{ name: 'lookupOrder', args: { email: EMAIL } }] },
+        { toolCalls: [{ name: 'lookupOrder', args: { email: EMAIL, page: 2 } }] },
+        { reply: 'Those are all your orders.' },
+      ],
+      expect: ({ response }) => {
+        const [first, second] = toolCalls(response.trajectory).map((call) => call.result as OrderPage | undefined);
+        const ids = [...(first?.orders ?? []), ...(second?.orders ?? [])].map((order) => order.orderId);
+        return [
+          ...(first?.hasMore !== true ? ['expected the first page to have more'] : []),
+          ...(second?.hasMore !== false ? ['expected the second page to be the last'] : []),
+          ...(new Set(ids).size !== 7 ? [`expected 7 different orders across both pages, got ${ids.join(', ')}`] : []),
+        ];
+      },
+    },
+  ],
+});
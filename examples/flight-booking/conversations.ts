@@ -0,0 +1,18 @@
+/**
+ * Flight Booking Conversation Fixtures
+ *
+ * Prior turns for suites that start mid-conversation.
+ */
+
+import type { ConversationTurn } from '../../src/conversation.js';
+
+/** The user already gave route, dates and party size; next they ask to book. */
+export const tripDetailsGiven: ConversationTurn[] = [
+  { role: 'user', content: 'Hi, I need to fly from SFO to JFK.' },
+  { role: 'assistant', content: 'Happy to help! What date would you like to depart, and how many passengers?' },
+  { role: 'user', content: 'Leaving the 14th of next month, just me, economy is fine.' },
+  {
+    role: 'assistant',
+    content: 'Got it — one passenger, SFO to JFK, economy, on the 14th of next month. Shall I search for flights?',
+  },
+];
@@ -0,0 +1,130 @@
+/**
+ * Flight Booking Replays
+ *
+ * Tool outputs replayed through the effects of the wrapped tools
+ * (`pnpm replay --filter flight-booking`). No LLM involved.
+ */
+
+import type { WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import { defineReplays } from '../../src/replay.js';
+import { invariants, simulations } from './agent.js';
+
+const flight = {
+  id: 'FL-100',
+  from: 'SFO',
+  to: 'JFK',
+  price: 320,
+  airline: 'United',
+  departure: '2025-03-14T08:00:00Z',
+  arrival: '2025-03-14T16:30:00Z',
+  seatsAvailable: 3,
+};
+
+const oneWaySearch = {
+  tool: 'searchFlights',
+  output: {
+    itineraryId: 'IT-1',
+    tripType: 'one-way',
+    legs: [{ leg: 'outbound', from: 'SFO', to: 'JFK', date: '2025-03-14', flights: [flight] }],
+    searchId: 'S-1',
+  },
+};
+
+function booking(overrides: Record<string, unknown> = {}) {
+  return {
+    bookingId: 'BK-1',
+    flightId: flight.id,
+    itineraryId: 'IT-1',
+    passengers: [{ name: 'Ada Lovelace' }, { name: 'Charles Babbage' }],
+    passengerCount: 2,
+    status: 'confirmed',
+    totalPrice: 640,
+    confirmationCode: 'ABC123',
+    ...overrides,
+  };
+}
+
+function seats(world: WorldStateAccessor, id: string) {
+  return world.getEntity('flights', id)?.data.seatsAvailable;
+}
+
+export const replays = defineReplays({
+  id: 'flight-booking',
+  simulations,
+  invariants,
+  cases: [
+    {
+      name: 'a booking takes one seat per passenger on the outbound leg',
+      steps: [oneWaySearch, { tool: 'bookFlight', output: booking() }],
+      expect: (world) => [
+        ...(seats(world, flight.id) === 1 ? [] : [`expected 1 seat left, got ${seats(world, flight.id)}`]),
+        ...(world.getEntity('bookings', 'BK-1')?.data.leg === 'outbound' ? [] : ['expected the booking on the outbound leg']),
+      ],
+    },
+    {
+      name: 'overbooking a flight breaks seatsAvailable',
+      steps: [
+        oneWaySearch,
+        {
+          tool: 'bookFlight',
+          output: booking({
+            passengers: [
+              { name: 'Ada Lovelace' },
+              { name: 'Charles Babbage' },
+              { name: 'Mary Somerville' },
+              { name: 'John Herschel' },
+            ],
+            passengerCount: 4,
+          }),
+        },
+      ],
+      violates: ['flights.seatsAvailable gte 0'],
+    },
+    {
+      name: 'seats follow the passengers booked, not the reported passengerCount',
+      steps: [oneWaySearch, { tool: 'bookFlight', output: booking({ passengerCount: 1 }) }],
+      expect: (world) => [
+        ...(seats(world, flight.id) === 1 ? [] : [`expected 1 seat left, got ${seats(world, flight.id)}`]),
+        ...(world.getEntity('bookings', 'BK-1')?.data.passengerCount === 2 ? [] : ['expected passengerCount 2 on the booking']),
+      ],
+    },
+    {
+      name: 'booking a passenger on the same flight twice is caught',
+      world: { flights: { [flight.id]: { ...flight, seatsAvailable: 9 } } },
+      steps: [
+        { tool: 'bookFlight', output: booking() },
+        {
+          tool: 'bookFlight',
+          output: booking({ bookingId: 'BK-2', passengers: [{ name: 'ada lovelace ' }], passengerCount: 1 }),
+        },
+      ],
+      violates: ['no-duplicate-writes'],
+    },
+    {
+      name: 'cancelling twice gives the seats back once',
+      steps: [
+        oneWaySearch,
+        { tool: 'bookFlight', output: booking() },
+        { tool: 'cancelBooking', output: booking({ status: 'cancelled', cancellationFee: 50, refundAmount: 590 }) },
+        { tool: 'cancelBooking', output: booking({ status: 'cancelled', cancellationFee: 50, refundAmount: 590 }) },
+      ],
+      expect: (world) => (seats(world, flight.id) === 3 ? [] : [`expected 3 seats, got ${seats(world, flight.id)}`]),
+    },
+    {
+      name: 'a change moves the seats to the new flight',
+      world: { flights: { 'FL-200': { ...flight, id: 'FL-200', seatsAvailable: 5 } } },
+      steps: [
+        oneWaySearch,
+        { tool: 'bookFlight', output: booking() },
+        { tool: 'changeFlight', output: booking({ flightId: 'FL-200', status: 'changed', changeFee: 150 }) },
+      ],
+      expect: (world) => [
+        ...(seats(world, flight.id) === 3 ? [] : [`expected FL-100 back at 3 seats, got ${seats(world, flight.id)}`]),
+        ...(seats(world, 'FL-200') === 3 ? [] : [`expected FL-200 down to 3 seats, got ${seats(world, 'FL-200')}`]),
+        ...(world.getEntity('bookings', 'BK-1')?.data.previousFlightId === flight.id
+          ? []
+          : ['expected previousFlightId to be FL-100']),
+      ],
+    },
+  ],
+});
@@ -0,0 +1,59 @@
+/**
+ * Flight Booking Scripts
+ *
+ * Tool-call sequences the offline stub model replays
+ * (`AGENT_PROVIDER=stub AGENT_SCRIPT=happy-path`).
+ */
+
+import type { ChatScript, ScriptRun } from '../../src/scripted-model.js';
+
+interface SearchResult {
+  itineraryId: string;
+  legs: { leg: string; flights: { id: string }[] }[];
+}
+
+/** A card that expires two years after the run's today, as MM/YY. */
+function cardExpiry(run: ScriptRun): string {
+  const [year, month] = run.date(730).split('-');
+  return `${month}/${year.slice(2)}`;
+}
+
+/** Search SFO → JFK 11 days out, book the first outbound flight for one passenger, confirm. */
+const happyPath: ChatScript = [
+  {
+    toolCalls: [
+      {
+        name: 'searchFlights',
+        args: (_, run) => ({ from: 'SFO', to: 'JFK', departureDate: run.date(11), passengers: 1, cabinClass: 'economy' }),
+      },
+    ],
+  },
+  {
+    toolCalls: [
+      {
+        name: 'bookFlight',
+        args: (results, run) => {
+          const search = results.at(-1) as SearchResult;
+          return {
+            flightId: search.legs[0].flights[0].id,
+            itineraryId: search.itineraryId,
+            passengers: [{ name: 'Ada Lovelace' }],
+            email: 'ada@example.com',
+            creditCard: { number: '4111111111111111', expiry: cardExpiry(run), cvv: '123' },
+            idempotencyKey: 'happy-path-booking',
+          };
+        },
+      },
+    ],
+  },
+  {
+    reply: (results) => {
+      const booking = results.at(-1) as { confirmationCode?: string };
+      return `You're booked! Your confirmation code is ${booking.confirmationCode}.`;
+    },
+  },
+];
+
+export const scripts: Record<string, ChatScript> = {
+  'happy-path': happyPath,
+};
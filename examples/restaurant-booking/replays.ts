@@ -0,0 +1,196 @@
+/**
+ * Restaurant Booking Replays
+ *
+ * Tool outputs replayed through the effects of the wrapped tools
+ * (`pnpm replay --filter restaurant-booking`). No LLM involved.
+ */
+
+import type { WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import { defineReplays } from '../../src/replay.js';
+import { invariants, simulations } from './agent.js';
+
+const restaurant = {
+  id: 'R-1',
+  name: 'Lantern Room',
+  cuisine: 'Italian',
+  location: 'San Francisco',
+  rating: 4.6,
+  priceRange: '$$',
+  availableTimes: ['18:00', '19:30'],
+  maxPartySize: 6,
+};
+
+const search = { tool: 'searchRestaurants', output: { restaurants: [restaurant], searchId: 'S-1' } };
+
+function reservation(overrides: Record<string, unknown> = {}) {
+  return {
+    reservationId: 'RES-1',
+    restaurantId: restaurant.id,
+    restaurantName: restaurant.name,
+    partySize: 2,
+    date: '2025-03-14',
+    time: '19:30',
+    guestName: 'Ada Lovelace',
+    phone: '415-555-0134',
+    confirmationCode: 'XYZ789',
+    status: 'confirmed',
+    ...overrides,
+  };
+}
+
+function waitlistEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    waitlistId: 'WL-1',
+    restaurantId: restaurant.id,
+    partySize: 2,
+    date: '2025-03-14',
+    time: '20:00',
+    guestName: 'Grace Hopper',
+    phone: '415-555-0199',
+    position: 1,
+    status: 'waiting',
+    ...overrides,
+  };
+}
+
+function openTimes(expected: string[]) {
+  return (world: WorldStateAccessor) => {
+    const times = (world.getEntity('restaurants', restaurant.id)?.data.availableTimes as string[]).join(', ');
+    return times === expected.join(', ') ? [] : [`expected availableTimes ${expected.join(', ')}, got ${times}`];
+  };
+}
+
+export const replays = defineReplays({
+  id: 'restaurant-booking',
+  simulations,
+  invariants,
+  cases: [
+    {
+      name: 'a reservation takes its slot and stores a masked phone',
+      steps: [search, { tool: 'makeReservation', output: reservation() }],
+      expect: (world) => {
+        const times = world.getEntity('restaurants', restaurant.id)?.data.availableTimes as string[];
+        const phone = world.getEntity('reservations', 'RES-1')?.data.phone as string;
+        return [
+          ...(times.includes('19:30') ? ['expected 19:30 to be removed from availableTimes'] : []),
+          ...(phone.includes('555') ? [`expected the phone to be masked, got ${phone}`] : []),
+        ];
+      },
+    },
+    {
+      name: 'booking a time the restaurant did not offer is caught',
+      steps: [search, { tool: 'makeReservation', output: reservation({ time: '21:00' }) }],
+      violates: ['reservation-slot-was-available'],
+    },
+    {
+      name: 'two reservations for the same slot are caught',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'makeReservation', output: reservation({ reservationId: 'RES-2', guestName: 'Grace Hopper' }) },
+      ],
+      violates: ['no-double-booked-slot', 'reservation-slot-was-available'],
+    },
+    {
+      name: 'booking the same guest into the same slot twice is caught',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'makeReservation', output: reservation({ reservationId: 'RES-2' }) },
+      ],
+      violates: ['no-duplicate-writes', 'no-double-booked-slot', 'reservation-slot-was-available'],
+    },
+    {
+      name: 'moving a reservation frees its old slot and takes the new one',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'modifyReservation', output: reservation({ time: '18:00', partySize: 4 }) },
+      ],
+      expect: (world) => [
+        ...openTimes(['19:30'])(world),
+        ...(world.getEntity('reservations', 'RES-1')?.data.previousTime === '19:30'
+          ? []
+          : ['expected previousTime 19:30']),
+      ],
+    },
+    {
+      name: 'changing only the party size leaves the slots alone',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'modifyReservation', output: reservation({ partySize: 5 }) },
+      ],
+      expect: openTimes(['18:00']),
+    },
+    {
+      name: 'moving into a taken slot is caught',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        {
+          tool: 'makeReservation',
+          output: reservation({ reservationId: 'RES-2', guestName: 'Grace Hopper', time: '18:00' }),
+        },
+        {
+          tool: 'modifyReservation',
+          output: reservation({ reservationId: 'RES-2', guestName: 'Grace Hopper', time: '19:30' }),
+        },
+      ],
+      violates: ['no-double-booked-slot', 'reservation-slot-was-available'],
+    },
+    {
+      name: 'growing a party past capacity is caught',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'modifyReservation', output: reservation({ partySize: 8 }) },
+      ],
+      violates: ['party-size-within-capacity'],
+    },
+    {
+      name: 'a cancelled reservation gives its slot back',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'cancelReservation', output: reservation({ status: 'cancelled' }) },
+      ],
+      expect: openTimes(['18:00', '19:30']),
+    },
+    {
+      name: 'cancelling twice frees the slot once',
+      steps: [
+        search,
+        { tool: 'makeReservation', output: reservation() },
+        { tool: 'cancelReservation', output: reservation({ status: 'cancelled' }) },
+        { tool: 'makeReservation', output: reservation({ reservationId: 'RES-2' }) },
+        { tool: 'cancelReservation', output: reservation({ status: 'cancelled' }) },
+      ],
+      expect: openTimes(['18:00']),
+    },
+    {
+      name: 'a waitlist entry for a full slot stores a masked phone',
+      steps: [search, { tool: 'joinWaitlist', output: waitlistEntry() }],
+      expect: (world) => {
+        const phone = world.getEntity('waitlist', 'WL-1')?.data.phone as string;
+        return phone.includes('555') ? [`expected the phone to be masked, got ${phone}`] : [];
+      },
+    },
+    {
+      name: 'waitlisting an open slot is caught',
+      steps: [search, { tool: 'joinWaitlist', output: waitlistEntry({ time: '18:00' }) }],
+      violates: ['waitlist-only-for-full-slots'],
+    },
+    {
+      name: 'a reservation at an unknown restaurant is recorded without a slot check',
+      steps: [{ tool: 'makeReservation', output: reservation() }],
+      expect: (world) => {
+        const reservation = world.getEntity('reservations', 'RES-1');
+        return [
+          ...(reservation ? [] : ['expected the reservation to be created']),
+          ...(reservation?.data.slotAvailableAtBooking === null ? [] : ['expected slotAvailableAtBooking to be null']),
+        ];
+      },
+    },
+  ],
+});
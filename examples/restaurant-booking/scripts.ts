@@ -0,0 +1,53 @@
+/**
+ * Restaurant Booking Scripts
+ *
+ * Tool-call sequences the offline stub model replays
+ * (`AGENT_PROVIDER=stub AGENT_SCRIPT=happy-path`).
+ */
+
+import type { ChatScript } from '../../src/scripted-model.js';
+
+interface SearchResult {
+  restaurants: { id: string; availableTimes: string[] }[];
+}
+
+/** Search for dinner for two 11 days out, reserve the first open slot at the first result, confirm. */
+const happyPath: ChatScript = [
+  {
+    toolCalls: [
+      {
+        name: 'searchRestaurants',
+        args: (_, run) => ({ location: 'San Francisco', date: run.date(11), time: '19:00', partySize: 2 }),
+      },
+    ],
+  },
+  {
+    toolCalls: [
+      {
+        name: 'makeReservation',
+        args: (results, run) => {
+          const [restaurant] = (results.at(-1) as SearchResult).restaurants;
+          return {
+            restaurantId: restaurant.id,
+            partySize: 2,
+            date: run.date(11),
+            time: restaurant.availableTimes[0],
+            guestName: 'Ada Lovelace',
+            phone: '+14155550134',
+            idempotencyKey: 'happy-path-reservation',
+          };
+        },
+      },
+    ],
+  },
+  {
+    reply: (results) => {
+      const reservation = results.at(-1) as { restaurantName?: string; time?: string; confirmationCode?: string };
+      return `You're all set at ${reservation.restaurantName} at ${reservation.time}. Confirmation code: ${reservation.confirmationCode}.`;
+    },
+  },
+];
+
+export const scripts: Record<string, ChatScript> = {
+  'happy-path': happyPath,
+};
@@ -0,0 +1,30 @@
+/**
+ * Restaurant Booking Stub Runs
+ *
+ * Scripted runs through the agent's full tool stack against the mock API
+ * (`pnpm stub --filter restaurant-booking`). No LLM involved.
+ */
+
+import { defineStubs } from '../../src/stub-run.js';
+import { toolCalls } from '../../src/trajectory.js';
+import { tools } from './agent.js';
+import { scripts } from './scripts.js';
+
+export const stubs = defineStubs({
+  id: 'restaurant-booking',
+  tools,
+  cases: [
+    {
+      name: 'the happy-path script reserves on the system clock',
+      script: scripts['happy-path'],
+      expect: ({ response, state }) => {
+        const failed = toolCalls(response.trajectory).filter((call) => call.failed);
+        const stored = Object.keys(state.reservations).length;
+        return [
+          ...failed.map((call) => `${call.name} failed: ${JSON.stringify(call.result)}`),
+          ...(stored !== 1 ? [`the API holds ${stored} reservations`] : []),
+        ];
+      },
+    },
+  ],
+});
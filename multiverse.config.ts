@@ -0,0 +1,39 @@
+/**
+ * Multiverse Suite Config
+ *
+ * Every suite the runner knows about. Run them with `pnpm multiverse`
+ * (see src/runner/cli.ts for flags).
+ */
+
+import { simulatorModel } from './src/config.js';
+import { defineConfig } from './src/runner/types.js';
+import { replays as customerSupportReplays } from './examples/customer-support/replays.js';
+import { stubs as customerSupportStubs } from './examples/customer-support/stubs.js';
+import { suites as customerSupport } from './examples/customer-support/suites.js';
+import { replays as flightBookingReplays } from './examples/flight-booking/replays.js';
+import { stubs as flightBookingStubs } from './examples/flight-booking/stubs.js';
+import { suites as flightBooking } from './examples/flight-booking/suites.js';
+import { replays as restaurantBookingReplays } from './examples/restaurant-booking/replays.js';
+import { stubs as restaurantBookingStubs } from './examples/restaurant-booking/stubs.js';
+import { suites as restaurantBooking } from './examples/restaurant-booking/suites.js';
+
+export default defineConfig({
+  multiverse: {
+    llm: simulatorModel(),
+    baseUrl: process.env.MULTIVERSE_URL || 'http://localhost:3000',
+    apiKey: process.env.MULTIVERSE_API_KEY,
+  },
+
+  defaults: {
+    scenarioCount: 5,
+    trialsPerScenario: 4,
+    simulateUser: true,
+    thresholds: { passRate: 70, quality: 70 },
+  },
+
+  suites: [...flightBooking, ...restaurantBooking, ...customerSupport],
+
+  replays: [flightBookingReplays, restaurantBookingReplays, customerSupportReplays],
+
+  stubs: [flightBookingStubs, restaurantBookingStubs, customerSupportStubs],
+});
@@ -0,0 +1,83 @@
+/**
+ * Agent Factory
+ *
+ * Every example agent is a LangGraph ReAct agent over its own tools and
+ * system prompt. `createAgent` builds one on the model chosen in
+ * configuration (see `agentModel()`) and returns its `runAgent`. Every tool
+ * gets fault-injection and prompt-injection layers, inert unless the run
+ * carries a plan for them, and in front of those an input-validation layer.
+ */
+
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { MemorySaver } from '@langchain/langgraph';
+import { createReactAgent } from '@langchain/langgraph/prebuilt';
+import { clockPrompt, type Clock } from './clock.js';
+import { agentModel } from './config.js';
+import { toMessages, toResponse, type AgentResponse, type ConversationContext } from './conversation.js';
+import { injectFaults } from './faults.js';
+import { seedInjections } from './injection.js';
+import { createChatModel, type ModelConfig } from './models.js';
+import type { ChatScript } from './scripted-model.js';
+import { recordTrajectory } from './trajectory.js';
+import { validateInputs } from './validation.js';
+
+export interface AgentOptions {
+  tools: StructuredToolInterface[];
+  /** Rebuilt on every model call from the run's clock */
+  systemPrompt: (clock: Clock) => string;
+  /** Overrides the model configured in the environment */
+  model?: ModelConfig;
+  /** Scripts the offline `stub` provider can replay, by name */
+  scripts?: Record<string, ChatScript>;
+}
+
+export interface Agent {
+  runAgent: (context: ConversationContext) => Promise<AgentResponse>;
+}
+
+export function createAgent(options: AgentOptions): Agent {
+  // Lazy initialization so env vars are read when the first run starts, not at import
+  let agent: ReturnType<typeof createReactAgent> | null = null;
+
+  function getAgent() {
+    if (!agent) {
+      const model = options.model ?? agentModel();
+      agent = createReactAgent({
+        llm: createChatModel(model, model.provider === 'stub' ? findScript(model.script) : undefined),
+        tools: options.tools.map(injectFaults).map(seedInjections).map(validateInputs),
+        stateModifier: clockPrompt(options.systemPrompt),
+        checkpointer: new MemorySaver(),
+      });
+    }
+    return agent;
+  }
+
+  function findScript(name?: string): ChatScript | undefined {
+    if (!name) return undefined;
+    const script = options.scripts?.[name];
+    if (!script) {
+      const available = Object.keys(options.scripts ?? {});
+      throw new Error(`Unknown script "${name}". Available: ${available.join(', ') || 'none'}`);
+    }
+    return script;
+  }
+
+  async function runAgent(context: ConversationContext): Promise<AgentResponse> {
+    const result = await getAgent().invoke(
+      { messages: [...toMessages(context.history ?? []), { role: 'user', content: context.userMessage }] },
+      {
+        configurable: {
+          thread_id: context.runId,
+          clock: context.clock,
+          faults: context.faults,
+          injections: context.injections,
+        },
+      }
+    );
+    const response = toResponse(result.messages);
+    recordTrajectory(context.runId, response.trajectory);
+    return response;
+  }
+
+  return { runAgent };
+}
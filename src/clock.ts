@@ -0,0 +1,92 @@
+/**
+ * Clock
+ *
+ * Every agent reads "now" through a Clock instead of `new Date()`, so a run
+ * can be pinned to an exact instant and time zone. Scenarios that say "next
+ * Friday" then resolve to the same date no matter when CI runs.
+ *
+ * A pinned clock travels with the run as a plain `ClockConfig` in the
+ * LangGraph `configurable`, and is rebuilt wherever it is needed.
+ */
+
+import { SystemMessage, type BaseMessage, type BaseMessageLike } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+
+export interface Clock {
+  now: () => Date;
+  /** IANA time zone, e.g. `America/Los_Angeles` */
+  timeZone: string;
+}
+
+/** Serializable form of a pinned clock — what suites declare and results record. */
+export interface ClockConfig {
+  /** ISO 8601 instant, e.g. `2025-03-14T09:00:00-07:00` */
+  now: string;
+  timeZone?: string;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+};
+
+export function fixedClock(config: ClockConfig): Clock {
+  const instant = new Date(config.now);
+  if (Number.isNaN(instant.getTime())) {
+    throw new Error(`Invalid clock time: ${config.now}`);
+  }
+  const timeZone = config.timeZone ?? 'UTC';
+  // Throws a RangeError for unknown zones
+  new Intl.DateTimeFormat('en-US', { timeZone });
+
+  return { now: () => new Date(instant), timeZone };
+}
+
+/** Freeze a clock at its current reading. */
+export function freeze(clock: Clock = systemClock): ClockConfig {
+  return { now: clock.now().toISOString(), timeZone: clock.timeZone };
+}
+
+export function clockFromConfig(config?: RunnableConfig): Clock {
+  const pinned = config?.configurable?.clock as ClockConfig | undefined;
+  return pinned ? fixedClock(pinned) : systemClock;
+}
+
+/** The clock's date `days` after today in its time zone, as YYYY-MM-DD. */
+export function localDate(clock: Clock, days = 0): string {
+  // en-CA formats as YYYY-MM-DD
+  const today = clock.now().toLocaleDateString('en-CA', { timeZone: clock.timeZone });
+  const date = new Date(`${today}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** "Friday, March 14, 2025, 09:00 AM PDT" in the clock's time zone. */
+export function formatDateTime(clock: Clock): string {
+  const now = clock.now();
+  const dateStr = now.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: clock.timeZone,
+  });
+  const timeStr = now.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+    timeZone: clock.timeZone,
+  });
+  return `${dateStr}, ${timeStr}`;
+}
+
+/**
+ * `stateModifier` for createReactAgent that rebuilds the system prompt on
+ * every call from the run's clock.
+ */
+export function clockPrompt(build: (clock: Clock) => string) {
+  return (state: { messages: BaseMessage[] }, config: RunnableConfig): BaseMessageLike[] => [
+    new SystemMessage(build(clockFromConfig(config))),
+    ...state.messages,
+  ];
+}
@@ -0,0 +1,117 @@
+/**
+ * Shared Configuration
+ *
+ * Settings read from the environment by every example agent.
+ */
+
+import type { HttpClientOptions } from './http.js';
+import { DEFAULT_MODELS, MODEL_PROVIDERS, type ModelConfig, type ModelProvider } from './models.js';
+import type { RunnerConfig } from './runner/types.js';
+
+const DEFAULT_API_BASE_URL = 'https://api.example.com';
+
+/**
+ * Base URL the real tool implementations call. Point it at the local mock API
+ * (`pnpm mock-api`) to run the agents in real mode.
+ */
+export function apiBaseUrl(): string {
+  return (process.env.API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * How the real tool implementations talk to the API:
+ *
+ *   API_TIMEOUT_MS  per attempt, defaults to 10000
+ *   API_RETRIES     extra attempts for idempotent calls, defaults to 2
+ *   API_BACKOFF_MS  first retry delay, doubling each time, defaults to 250
+ */
+export function httpConfig(): HttpClientOptions {
+  return {
+    baseUrl: apiBaseUrl(),
+    timeoutMs: numberFromEnv('API_TIMEOUT_MS', 10_000),
+    retries: numberFromEnv('API_RETRIES', 2),
+    backoffMs: numberFromEnv('API_BACKOFF_MS', 250),
+  };
+}
+
+export interface RefundPolicy {
+  /** Days after the order date that a refund can still be issued */
+  returnWindowDays: number;
+}
+
+/**
+ * Store refund policy the customer-support agent enforces:
+ *
+ *   REFUND_WINDOW_DAYS  days after the order date a refund is allowed, defaults to 30
+ */
+export function refundPolicy(): RefundPolicy {
+  return {
+    returnWindowDays: numberFromEnv('REFUND_WINDOW_DAYS', 30),
+  };
+}
+
+/**
+ * Model the example agents run on:
+ *
+ *   AGENT_PROVIDER     anthropic (default) | openai | stub
+ *   AGENT_MODEL        provider model name, e.g. gpt-4o-mini or llama3.1
+ *   AGENT_TEMPERATURE  defaults to 0
+ *   OPENAI_BASE_URL    OpenAI-compatible endpoint for a local server
+ *   AGENT_SCRIPT       script the stub replays, e.g. happy-path
+ */
+export function agentModel(): ModelConfig {
+  const provider = (process.env.AGENT_PROVIDER || 'anthropic') as ModelProvider;
+  if (!MODEL_PROVIDERS.includes(provider)) {
+    throw new Error(`AGENT_PROVIDER must be one of ${MODEL_PROVIDERS.join(', ')}, got "${provider}"`);
+  }
+  const temperature = process.env.AGENT_TEMPERATURE ? Number(process.env.AGENT_TEMPERATURE) : undefined;
+  if (temperature !== undefined && !Number.isFinite(temperature)) {
+    throw new Error(`AGENT_TEMPERATURE must be a number, got "${process.env.AGENT_TEMPERATURE}"`);
+  }
+
+  return {
+    provider,
+    model: process.env.AGENT_MODEL || undefined,
+    temperature,
+    baseUrl: provider === 'openai' ? process.env.OPENAI_BASE_URL || undefined : undefined,
+    apiKey:
+      provider === 'anthropic'
+        ? process.env.ANTHROPIC_API_KEY
+        : provider === 'openai'
+          ? process.env.OPENAI_API_KEY
+          : undefined,
+    script: process.env.AGENT_SCRIPT || undefined,
+  };
+}
+
+/**
+ * LLM the Multiverse server uses to simulate users and tools. Follows the
+ * agent's provider and model unless MULTIVERSE_LLM_PROVIDER /
+ * MULTIVERSE_LLM_MODEL say otherwise; the stub and local endpoints only exist
+ * on this machine, so those fall back to Anthropic.
+ */
+export function simulatorModel(): NonNullable<RunnerConfig['multiverse']['llm']> {
+  const agent = agentModel();
+  const followsAgent = agent.provider === 'anthropic' || (agent.provider === 'openai' && !agent.baseUrl);
+  const provider = (process.env.MULTIVERSE_LLM_PROVIDER || (followsAgent ? agent.provider : 'anthropic')) as
+    | 'anthropic'
+    | 'openai'
+    | 'google';
+  const model =
+    process.env.MULTIVERSE_LLM_MODEL ||
+    (followsAgent && provider === agent.provider ? agent.model : undefined) ||
+    (provider === 'google' ? undefined : DEFAULT_MODELS[provider]);
+
+  return { provider, ...(model && { model }) };
+}
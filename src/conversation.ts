@@ -0,0 +1,112 @@
+/**
+ * Conversations
+ *
+ * Plain, serializable conversation turns shared by every example agent.
+ * `runAgent` accepts prior turns to start a run mid-conversation and returns
+ * the full message history of the thread, and its trajectory (see
+ * src/trajectory.ts), alongside the reply.
+ */
+
+import { AIMessage, HumanMessage, ToolMessage, type BaseMessage } from '@langchain/core/messages';
+import type { AgentContext, Trace } from '@virtualkitchenco/multiverse-sdk';
+import type { ClockConfig } from './clock.js';
+import type { Fault } from './faults.js';
+import type { Injection } from './injection.js';
+import { toTrajectory, type Trajectory } from './trajectory.js';
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type ConversationTurn =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCallRecord[] }
+  | { role: 'tool'; content: string; toolCallId: string; name?: string };
+
+export interface ConversationContext extends AgentContext {
+  /**
+   * Turns that happened before `userMessage`. Only used to seed a new thread —
+   * once a run has started, its history lives in the agent's checkpointer.
+   */
+  history?: ConversationTurn[];
+  /** Pin the agent's notion of "now". Defaults to the system clock. */
+  clock?: ClockConfig;
+  /** Tool failures to inject into this run */
+  faults?: Fault[];
+  /** Prompt-injection payloads to seed into this run's tool outputs */
+  injections?: Injection[];
+}
+
+export interface AgentResponse {
+  /** Text of the agent's final message */
+  reply: string;
+  /** Every turn in the thread so far, including seeded history and tool calls */
+  messages: ConversationTurn[];
+  /** The same thread as steps, with each tool call paired with its result */
+  trajectory: Trajectory;
+}
+
+export function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+/** Convert plain turns into LangChain messages for `agent.invoke()`. */
+export function toMessages(turns: ConversationTurn[]): BaseMessage[] {
+  return turns.map((turn) => {
+    switch (turn.role) {
+      case 'user':
+        return new HumanMessage(turn.content);
+      case 'assistant':
+        return new AIMessage({
+          content: turn.content,
+          tool_calls: turn.toolCalls?.map((call) => ({ ...call, type: 'tool_call' as const })) ?? [],
+        });
+      case 'tool':
+        return new ToolMessage({ content: turn.content, tool_call_id: turn.toolCallId, name: turn.name });
+    }
+  });
+}
+
+/** Convert the agent's thread back into plain turns. System messages are dropped. */
+export function toTurns(messages: BaseMessage[]): ConversationTurn[] {
+  return messages.flatMap((message): ConversationTurn[] => {
+    switch (message.getType()) {
+      case 'human':
+        return [{ role: 'user', content: messageText(message) }];
+      case 'ai': {
+        const toolCalls = ((message as AIMessage).tool_calls ?? []).map((call) => ({
+          id: call.id ?? '',
+          name: call.name,
+          args: call.args,
+        }));
+        return [{ role: 'assistant', content: messageText(message), ...(toolCalls.length > 0 && { toolCalls }) }];
+      }
+      case 'tool': {
+        const { tool_call_id, name } = message as ToolMessage;
+        return [{ role: 'tool', content: messageText(message), toolCallId: tool_call_id, name }];
+      }
+      default:
+        return [];
+    }
+  });
+}
+
+/** Build the `runAgent` result from the thread after an invocation. */
+export function toResponse(messages: BaseMessage[]): AgentResponse {
+  const last = messages[messages.length - 1];
+  const turns = toTurns(messages);
+  return {
+    reply: last ? messageText(last) : '',
+    messages: turns,
+    trajectory: toTrajectory(turns),
+  };
+}
+
+/** What the agent said to the user over a recorded run, in order. */
+export function agentReplies(trace: Trace | undefined): string[] {
+  return (trace?.entries ?? [])
+    .filter((entry) => entry.type === 'agent')
+    .map((entry) => entry.message ?? (typeof entry.output === 'string' ? entry.output : JSON.stringify(entry.output)));
+}
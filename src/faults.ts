@@ -0,0 +1,95 @@
+/**
+ * Fault Injection
+ *
+ * A suite can declare tool failures for every run: the first bookFlight call
+ * comes back sold out, every lookupOrder is a 404, searches are slow. The plan
+ * travels with the run in the LangGraph `configurable`, like the clock, and a
+ * layer in front of each tool answers matching calls with the same typed
+ * `{ error }` result a real API failure produces.
+ *
+ * Faulted calls never reach the wrapped tool, so they have no effects on the
+ * simulated world — exactly like a request the API rejected.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { HttpError, toolError, type HttpErrorKind } from './http.js';
+import { layer } from './layers.js';
+
+export interface Fault {
+  /** Tool name, e.g. `bookFlight` */
+  tool: string;
+  /** Which call of the tool in each run fails: 1 is the first (default), `every` fails them all */
+  call?: number | 'every';
+  /** Returned instead of calling the tool. Without one, the call goes through after `delayMs`. */
+  error?: { kind: HttpErrorKind; message: string; status?: number; code?: string };
+  /** Wait this long before answering */
+  delayMs?: number;
+}
+
+type When = Pick<Fault, 'call'>;
+
+function failure(tool: string, kind: HttpErrorKind, status: number, message: string, when: When = {}): Fault {
+  return { tool, ...when, error: { kind, status, code: kind, message } };
+}
+
+/** Ready-made faults for the failures the example APIs can produce. */
+export const faults = {
+  serverError: (tool: string, when?: When) =>
+    failure(tool, 'unavailable', 503, 'The service is temporarily unavailable', when),
+  timeout: (tool: string, when?: When) => failure(tool, 'timeout', 504, `${tool} did not respond in time`, when),
+  rateLimited: (tool: string, when?: When) => failure(tool, 'rate_limited', 429, 'Too many requests', when),
+  notFound: (tool: string, when?: When) => failure(tool, 'not_found', 404, 'No matching record found', when),
+  soldOut: (tool: string, when?: When) => failure(tool, 'sold_out', 409, 'No availability left for this selection', when),
+  declinedCard: (tool: string, when?: When) =>
+    failure(tool, 'payment_declined', 402, 'The card was declined by the issuer', when),
+  slow: (tool: string, delayMs: number, when?: When): Fault => ({ tool, ...when, delayMs }),
+};
+
+/** "bookFlight#1 sold_out", for logs and reports. */
+export function describeFault(fault: Fault): string {
+  const call = fault.call === 'every' ? '*' : String(fault.call ?? 1);
+  const effect = fault.error ? fault.error.kind : `slow ${fault.delayMs ?? 0}ms`;
+  return `${fault.tool}#${call} ${effect}`;
+}
+
+// =============================================================================
+// Injection
+// =============================================================================
+
+// Calls per tool, per run
+const callCounts = new Map<string, Map<string, number>>();
+
+function nextFault(toolName: string, config?: RunnableConfig): Fault | undefined {
+  const plan = config?.configurable?.faults as Fault[] | undefined;
+  if (!plan?.some((fault) => fault.tool === toolName)) return undefined;
+
+  const runId = String(config?.configurable?.thread_id ?? '');
+  const counts = callCounts.get(runId) ?? new Map<string, number>();
+  callCounts.set(runId, counts);
+  const call = (counts.get(toolName) ?? 0) + 1;
+  counts.set(toolName, call);
+
+  return plan.find((fault) => fault.tool === toolName && (fault.call === 'every' || (fault.call ?? 1) === call));
+}
+
+/** Forget how often a run called each tool. Call it when the run is over. */
+export function clearCallCounts(runId: string): void {
+  callCounts.delete(runId);
+}
+
+/** Put a fault-injecting layer in front of a tool. Without a fault plan it just forwards. */
+export function injectFaults(inner: StructuredToolInterface): DynamicStructuredTool {
+  return layer(inner, async (input, next, config) => {
+    const fault = nextFault(inner.name, config);
+    if (fault?.delayMs) {
+      await sleep(fault.delayMs);
+    }
+    if (fault?.error) {
+      const { kind, message, status, code } = fault.error;
+      return toolError(new HttpError(kind, message, status, code));
+    }
+    return next(input);
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * HTTP Client
+ *
+ * Shared client for the real tool implementations. Every failure — an error
+ * status, a timeout, a dropped connection, a body that isn't JSON — becomes an
+ * `HttpError` with a `kind` the agent can reason about. Tools hand those back
+ * as `{ error: { kind, message, retryable } }` results via `asToolResult()`
+ * instead of passing HTML pages or parse errors to the model.
+ *
+ * Idempotent requests (every GET, anything marked `idempotent`, and POSTs
+ * sent with an `idempotencyKey`) are retried with exponential backoff on
+ * timeouts, connection failures, 429s and 5xx responses.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { httpConfig } from './config.js';
+
+export type HttpErrorKind =
+  | 'not_found'
+  | 'sold_out'
+  | 'payment_declined'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'conflict'
+  | 'unavailable'
+  | 'timeout'
+  | 'invalid_response';
+
+export class HttpError extends Error {
+  constructor(
+    readonly kind: HttpErrorKind,
+    message: string,
+    /** HTTP status, when the server answered */
+    readonly status?: number,
+    /** Error code from the API body, e.g. `party_too_large` */
+    readonly code?: string,
+    /** Seconds from a Retry-After header */
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  /** Trying the same request again later may succeed. */
+  get retryable(): boolean {
+    return ['rate_limited', 'unavailable', 'timeout'].includes(this.kind);
+  }
+}
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  /** Per attempt, in milliseconds */
+  timeoutMs: number;
+  /** Extra attempts for idempotent requests */
+  retries: number;
+  /** First retry delay in milliseconds; doubles on every attempt */
+  backoffMs: number;
+}
+
+export interface RequestOptions {
+  /** Safe to retry. GETs always are. */
+  idempotent?: boolean;
+  /**
+   * Sent as the `Idempotency-Key` header: the API answers a repeated key with
+   * the result of the first request instead of writing again, so the request
+   * is also safe to retry.
+   */
+  idempotencyKey?: string;
+}
+
+export interface ToolErrorResult {
+  error: {
+    kind: HttpErrorKind;
+    message: string;
+    retryable: boolean;
+    code?: string;
+  };
+}
+
+const MAX_BACKOFF_MS = 30_000;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+function kindFor(status: number, code?: string): HttpErrorKind {
+  if (code === 'sold_out') return 'sold_out';
+  if (status === 402 || code === 'payment_declined') return 'payment_declined';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'unavailable';
+  return 'invalid_request';
+}
+
+async function errorFromResponse(res: Response, path: string): Promise<HttpError> {
+  const text = await res.text();
+  let code: string | undefined;
+  let message = `${res.status} ${res.statusText} from ${path}`;
+  try {
+    const body = JSON.parse(text) as { error?: { code?: string; message?: string } };
+    code = body.error?.code;
+    message = body.error?.message ?? message;
+  } catch {
+    // Not JSON (an HTML error page, a proxy message) — keep the status line
+  }
+
+  const retryAfter = Number(res.headers.get('retry-after'));
+  return new HttpError(
+    kindFor(res.status, code),
+    message,
+    res.status,
+    code,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+  );
+}
+
+function errorFromException(err: unknown, path: string, timeoutMs: number): HttpError {
+  if (err instanceof HttpError) return err;
+  if (err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError')) {
+    return new HttpError('timeout', `${path} did not respond within ${timeoutMs}ms`);
+  }
+  const reason = err instanceof Error ? (err.cause instanceof Error ? err.cause.message : err.message) : String(err);
+  return new HttpError('unavailable', `Could not reach ${path}: ${reason}`);
+}
+
+/** Turn an `HttpError` into a result the agent can read. Other errors are rethrown. */
+export function toolError(err: unknown): ToolErrorResult {
+  if (!(err instanceof HttpError)) throw err;
+  return {
+    error: {
+      kind: err.kind,
+      message: err.message,
+      retryable: err.retryable,
+      ...(err.code && { code: err.code }),
+    },
+  };
+}
+
+/**
+ * True for an `{ error }` result, or for the JSON text of one: simulated tools
+ * may answer with the text of their result.
+ */
+export function isToolError(result: unknown): result is ToolErrorResult | string {
+  if (typeof result === 'string') {
+    try {
+      return isToolError(JSON.parse(result));
+    } catch {
+      return false;
+    }
+  }
+  return typeof result === 'object' && result !== null && 'error' in result;
+}
+
+/** Await an API call, returning failures as `{ error }` results. */
+export async function asToolResult<T>(call: Promise<T>): Promise<T | ToolErrorResult> {
+  try {
+    return await call;
+  } catch (err) {
+    return toolError(err);
+  }
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+export function createHttpClient(overrides: Partial<HttpClientOptions> = {}) {
+  async function attempt(
+    method: string,
+    path: string,
+    body: unknown,
+    headers: Record<string, string>,
+    options: HttpClientOptions
+  ): Promise<unknown> {
+    try {
+      const res = await fetch(`${options.baseUrl}${path}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      if (!res.ok) {
+        throw await errorFromResponse(res, path);
+      }
+
+      const text = await res.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new HttpError('invalid_response', `${path} returned a body that is not JSON`, res.status);
+      }
+    } catch (err) {
+      throw errorFromException(err, path, options.timeoutMs);
+    }
+  }
+
+  async function request<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    idempotent: boolean,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    // Read per request so env changes (e.g. API_BASE_URL in a test) take effect
+    const options = { ...httpConfig(), ...overrides };
+    const attempts = idempotent ? options.retries + 1 : 1;
+
+    for (let i = 1; ; i++) {
+      try {
+        return (await attempt(method, path, body, headers, options)) as T;
+      } catch (err) {
+        const error = err as HttpError;
+        if (i >= attempts || !error.retryable) throw error;
+
+        const delay = error.retryAfter ? error.retryAfter * 1000 : options.backoffMs * 2 ** (i - 1);
+        await sleep(Math.min(delay, MAX_BACKOFF_MS));
+      }
+    }
+  }
+
+  return {
+    get: <T = unknown>(path: string, query?: URLSearchParams) =>
+      request<T>('GET', query && [...query].length > 0 ? `${path}?${query}` : path, undefined, true),
+    post: <T = unknown>(path: string, body: unknown, options: RequestOptions = {}) =>
+      request<T>(
+        'POST',
+        path,
+        body,
+        options.idempotent ?? options.idempotencyKey !== undefined,
+        options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}
+      ),
+  };
+}
+
+export type HttpClient = ReturnType<typeof createHttpClient>;
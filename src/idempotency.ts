@@ -0,0 +1,71 @@
+/**
+ * Idempotent Writes
+ *
+ * Write tools take an `idempotencyKey`: one key per thing the user asked for,
+ * reused when the agent retries it. A layer in front of the wrapped tool
+ * remembers each successful raw output by key for the rest of the run, so a
+ * repeated call gets the entity the first call created — with no second set
+ * of effects in the simulated world. The real implementations send the key as
+ * an `Idempotency-Key` header so the API does the same.
+ *
+ * Duplicates the agent makes with fresh keys are caught afterwards by the
+ * `no-duplicate-writes` invariant (src/invariants.ts).
+ */
+
+import type { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { HttpError, isToolError, toolError } from './http.js';
+import { layer } from './layers.js';
+
+/** The `idempotencyKey` field of write tool schemas. */
+export const IdempotencyKeySchema = z
+  .string()
+  .min(1)
+  .describe(
+    'Unique key for this request, e.g. a UUID. Reuse the same key when retrying the same request; use a new one for a new request.'
+  );
+
+// Results per idempotency key, per run
+const results = new Map<string, Map<string, { request: string; result: unknown }>>();
+
+/** Forget a run's results by idempotency key. Call it when the run is over. */
+export function clearIdempotentResults(runId: string): void {
+  results.delete(runId);
+}
+
+/**
+ * Put an idempotency layer in front of a write tool whose schema has an
+ * `idempotencyKey` field. Apply it outside `protectInputs()`, so requests are
+ * compared before sensitive values are swapped for fresh tokens.
+ */
+export function idempotent(inner: StructuredToolInterface): DynamicStructuredTool {
+  return layer(inner, async (input, next, config) => {
+    const { idempotencyKey: key, ...request } = input;
+    const runId = String(config.configurable?.thread_id ?? '');
+    const seen = results.get(runId) ?? new Map<string, { request: string; result: unknown }>();
+    results.set(runId, seen);
+
+    const fingerprint = JSON.stringify(request);
+    const previous = seen.get(String(key));
+    if (previous) {
+      // A copy, so each call's ToolMessage gets a result of its own
+      return previous.request === fingerprint
+        ? structuredClone(previous.result)
+        : toolError(
+            new HttpError(
+              'invalid_request',
+              `Idempotency key ${key} was already used for a different request`,
+              422,
+              'idempotency_key_reused'
+            )
+          );
+    }
+
+    const result = await next(input);
+    // Failures aren't remembered, so a retry with the same key can still succeed
+    if (!isToolError(result)) {
+      seen.set(String(key), { request: fingerprint, result });
+    }
+    return result;
+  });
+}
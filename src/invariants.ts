@@ -0,0 +1,113 @@
+/**
+ * Relational Invariants
+ *
+ * Field invariants passed to `wrap()` check one value on one collection
+ * (`seatsAvailable >= 0`). Business rules usually span collections — refunds
+ * against their order, reservations against their restaurant — so agents
+ * export these alongside `runAgent` and the suite runner checks them against
+ * the final world of every run. Any violation fails the run.
+ *
+ * `noDuplicateWrites` is checked on every run on top of the agent's own
+ * invariants.
+ */
+
+import type { Entity, WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+
+export interface Violation {
+  /** Name of the invariant that failed */
+  invariant: string;
+  /** What went wrong, naming the entities involved */
+  message: string;
+}
+
+export interface RelationalInvariant {
+  name: string;
+  description: string;
+  /** Return one message per violation; an empty list means the invariant holds */
+  check: (world: WorldStateAccessor) => string[];
+}
+
+export function checkInvariants(world: WorldStateAccessor, invariants: RelationalInvariant[]): Violation[] {
+  return invariants.flatMap((invariant) =>
+    invariant.check(world).map((message) => ({ invariant: invariant.name, message }))
+  );
+}
+
+/**
+ * Group the entities of `collection` by the id stored in `field`, e.g. refunds
+ * by `orderId`.
+ */
+export function groupBy(world: WorldStateAccessor, collection: string, field: string): Map<string, Entity[]> {
+  const groups = new Map<string, Entity[]>();
+  for (const entity of world.getCollection(collection).values()) {
+    const key = String(entity.data[field]);
+    groups.set(key, [...(groups.get(key) ?? []), entity]);
+  }
+  return groups;
+}
+
+// =============================================================================
+// Duplicate writes — checked on every run, whatever the agent
+// =============================================================================
+
+export interface DuplicateRule {
+  collection: string;
+  /** What two entities share when they are duplicates, e.g. `passenger and flight` */
+  label: string;
+  /** Keys an active entity claims; an empty list skips it */
+  keys: (entity: Entity) => string[];
+}
+
+const INACTIVE_STATUSES = ['failed', 'cancelled', 'rejected'];
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+/**
+ * The same passenger on the same flight, the same guest in the same slot, the
+ * same refund issued twice. A second partial refund on an order is allowed;
+ * `refunds-within-order-total` caps what an order's refunds add up to.
+ */
+export const DUPLICATE_WRITE_RULES: DuplicateRule[] = [
+  {
+    collection: 'bookings',
+    label: 'passenger and flight',
+    keys: (booking) =>
+      ((booking.data.passengers as Array<{ name?: string }> | undefined) ?? []).map(
+        (p) => `${booking.data.flightId} / ${normalize(p.name)}`
+      ),
+  },
+  {
+    collection: 'reservations',
+    label: 'guest and slot',
+    keys: (r) => [`${r.data.restaurantId} ${r.data.date} ${r.data.time} / ${normalize(r.data.guestName)}`],
+  },
+  {
+    collection: 'refunds',
+    label: 'order, amount and reason',
+    keys: (r) => [`${r.data.orderId} / ${r.data.amount} / ${normalize(r.data.reason)}`],
+  },
+];
+
+export function duplicateWrites(rules: DuplicateRule[]): RelationalInvariant {
+  return {
+    name: 'no-duplicate-writes',
+    description: 'The agent never writes the same thing twice, e.g. booking one passenger on a flight twice',
+    check: (world) =>
+      rules.flatMap(({ collection, label, keys }) => {
+        const claims = new Map<string, string[]>();
+        for (const entity of world.getCollection(collection).values()) {
+          if (INACTIVE_STATUSES.includes(entity.data.status as string)) continue;
+          for (const key of new Set(keys(entity))) {
+            claims.set(key, [...(claims.get(key) ?? []), entity.id]);
+          }
+        }
+        return [...claims]
+          .filter(([, ids]) => ids.length > 1)
+          .map(([key, ids]) => `${collection} ${ids.join(', ')} repeat the same ${label} (${key})`);
+      }),
+  };
+}
+
+export const noDuplicateWrites = duplicateWrites(DUPLICATE_WRITE_RULES);
@@ -0,0 +1,52 @@
+/**
+ * Tool Layers
+ *
+ * Validation, faults, tokenization, idempotency and prompt injection each sit
+ * in front of a tool as a layer with the tool's name and description:
+ *
+ *   export const bookFlight = idempotent(protectInputs(wrap(bookFlightTool, bookFlightSimulation)));
+ *
+ * `layer()` builds one. Only the outermost tool answers a tool call with a
+ * ToolMessage: each layer hands the call on without its `toolCall`, so the
+ * layer function and every tool underneath see the raw output.
+ */
+
+import {
+  DynamicStructuredTool,
+  type StructuredToolInterface,
+  type ToolRunnableConfig,
+  type ToolSchemaBase,
+} from '@langchain/core/tools';
+
+/** Calls the tool underneath with `input` and resolves to its raw output. */
+export type Next = (input: unknown) => Promise<unknown>;
+
+export type LayerFunction = (
+  input: Record<string, unknown>,
+  next: Next,
+  config: ToolRunnableConfig
+) => Promise<unknown>;
+
+function withoutToolCall({ toolCall: _toolCall, ...config }: ToolRunnableConfig = {}): ToolRunnableConfig {
+  return config;
+}
+
+/**
+ * Put `run` in front of `inner`, under the same name and description. The
+ * layer's input is checked against `schema`, by default the inner tool's.
+ */
+export function layer(
+  inner: StructuredToolInterface,
+  run: LayerFunction,
+  schema: ToolSchemaBase = inner.schema
+): DynamicStructuredTool {
+  return new DynamicStructuredTool({
+    name: inner.name,
+    description: inner.description,
+    schema,
+    func: async (input: Record<string, unknown>, _runManager, config) => {
+      const forwarded = withoutToolCall(config);
+      return run(input, (next) => inner.invoke(next as Record<string, unknown>, forwarded), forwarded);
+    },
+  });
+}
@@ -0,0 +1,323 @@
+/**
+ * Mock API Fixtures
+ *
+ * Deterministic data for the mock API. The same seed always produces the
+ * same flights, restaurants and orders, so real-mode runs are reproducible.
+ * Order dates count back from the store's today, so pin its clock to pin them.
+ */
+
+// =============================================================================
+// Types — mirror the output schemas declared by each example agent
+// =============================================================================
+
+export interface Flight {
+  id: string;
+  from: string;
+  to: string;
+  price: number;
+  airline: string;
+  departure: string;
+  arrival: string;
+  seatsAvailable: number;
+}
+
+export interface Itinerary {
+  itineraryId: string;
+  tripType: 'one-way' | 'round-trip';
+  from: string;
+  to: string;
+  departureDate: string;
+  returnDate?: string;
+}
+
+export interface Passenger {
+  name: string;
+  dateOfBirth?: string;
+  seatPreference?: 'window' | 'aisle' | 'middle';
+  knownTravelerNumber?: string;
+}
+
+export interface Booking {
+  bookingId: string;
+  flightId: string;
+  passengers: Passenger[];
+  passengerCount: number;
+  itineraryId?: string;
+  leg?: 'outbound' | 'return';
+  status: 'confirmed' | 'pending' | 'failed' | 'cancelled' | 'changed';
+  totalPrice: number;
+  confirmationCode: string;
+  previousFlightId?: string;
+  changeFee?: number;
+  cancellationFee?: number;
+  refundAmount?: number;
+}
+
+export interface Restaurant {
+  id: string;
+  name: string;
+  cuisine: string;
+  location: string;
+  rating: number;
+  priceRange: '$' | '$$' | '$$$' | '$$$$';
+  availableTimes: string[];
+  maxPartySize: number;
+}
+
+export interface Reservation {
+  reservationId: string;
+  restaurantId: string;
+  restaurantName: string;
+  partySize: number;
+  date: string;
+  time: string;
+  guestName: string;
+  phone: string;
+  confirmationCode: string;
+  status: 'confirmed' | 'pending' | 'failed' | 'cancelled';
+  previousTime?: string;
+}
+
+export interface WaitlistEntry {
+  waitlistId: string;
+  restaurantId: string;
+  partySize: number;
+  date: string;
+  time: string;
+  guestName: string;
+  phone: string;
+  position: number;
+  status: 'waiting' | 'seated' | 'expired';
+}
+
+export interface Address {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+export interface Order {
+  orderId: string;
+  customerName: string;
+  email: string;
+  items: Array<{ productId: string; name: string; quantity: number; price: number }>;
+  total: number;
+  status: 'pending' | 'shipped' | 'delivered' | 'lost' | 'damaged' | 'cancelled' | 'partially_refunded' | 'refunded';
+  shippingAddress: Address;
+  trackingNumber?: string;
+  orderDate: string;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  /** 1-based */
+  page: number;
+  pageSize: number;
+  totalOrders: number;
+  hasMore: boolean;
+}
+
+export interface Refund {
+  refundId: string;
+  orderId: string;
+  amount: number;
+  reason: string;
+  status: 'approved' | 'pending' | 'rejected';
+  processedDate: string;
+}
+
+export interface Verification {
+  verificationId: string;
+  orderId: string;
+  method: 'email' | 'postalCode';
+  verified: boolean;
+  verifiedDate: string;
+}
+
+export interface Ticket {
+  ticketId: string;
+  orderId?: string;
+  category: 'damaged_item' | 'missing_package' | 'complaint' | 'other';
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  summary: string;
+  status: 'open' | 'closed';
+  createdDate: string;
+}
+
+export interface ShippingUpdate {
+  updateId: string;
+  orderId: string;
+  oldAddress: Address;
+  newAddress: Address;
+  status: 'updated' | 'failed';
+  updatedDate: string;
+}
+
+// =============================================================================
+// Random
+// =============================================================================
+
+export type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32). Keys are hashed together with the seed so each
+ * route or location gets its own stable stream.
+ */
+export function createRandom(seed: number, ...keys: string[]): Random {
+  let state = seed >>> 0;
+  for (const ch of keys.join('|')) {
+    state = Math.imul(state ^ ch.charCodeAt(0), 2654435761) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function between(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function randomCode(random: Random, length = 6): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  return Array.from({ length }, () => pick(random, [...alphabet])).join('');
+}
+
+// =============================================================================
+// Flights
+// =============================================================================
+
+const AIRLINES = ['United', 'Delta', 'American', 'Alaska', 'JetBlue', 'Southwest'];
+
+/**
+ * Flights for one route and date. Generated on first search and then kept
+ * in the store, so seat counts carry over between calls.
+ */
+export function generateFlights(seed: number, from: string, to: string, date: string): Flight[] {
+  const random = createRandom(seed, 'flights', from, to, date);
+  const count = between(random, 3, 5);
+
+  return Array.from({ length: count }, (_, i) => {
+    const airline = pick(random, AIRLINES);
+    const departHour = between(random, 6, 20);
+    const durationMinutes = between(random, 60, 360);
+    const departure = new Date(`${date}T${String(departHour).padStart(2, '0')}:${pick(random, ['00', '15', '30', '45'])}:00Z`);
+    const arrival = new Date(departure.getTime() + durationMinutes * 60_000);
+
+    return {
+      id: `FL-${from}-${to}-${date.replaceAll('-', '')}-${i + 1}`,
+      from,
+      to,
+      price: between(random, 89, 780),
+      airline,
+      departure: departure.toISOString(),
+      arrival: arrival.toISOString(),
+      seatsAvailable: between(random, 0, 9),
+    };
+  });
+}
+
+// =============================================================================
+// Restaurants
+// =============================================================================
+
+const CUISINES = ['Italian', 'Japanese', 'Mexican', 'French', 'Indian', 'Thai'];
+const NAME_PARTS = ['Golden', 'Little', 'Blue', 'Olive', 'Harbor', 'Copper', 'Garden', 'Lantern'];
+const NAME_SUFFIXES = ['Table', 'Kitchen', 'House', 'Bistro', 'Room', 'Tavern'];
+const SLOTS = ['17:00', '17:30', '18:00', '18:30', '19:00', '19:30', '20:00', '20:30', '21:00'];
+
+/**
+ * Restaurants for one location. Generated on first search and then kept in
+ * the store, so booked slots stay booked.
+ */
+export function generateRestaurants(seed: number, location: string): Restaurant[] {
+  const random = createRandom(seed, 'restaurants', location.toLowerCase());
+  const count = between(random, 4, 6);
+  const slug = location.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `RST-${slug}-${i + 1}`,
+    name: `${pick(random, NAME_PARTS)} ${pick(random, NAME_SUFFIXES)}`,
+    cuisine: pick(random, CUISINES),
+    location,
+    rating: Math.round((3.5 + random() * 1.5) * 10) / 10,
+    priceRange: pick(random, ['$', '$$', '$$$', '$$$$'] as const),
+    availableTimes: SLOTS.filter(() => random() > 0.35),
+    maxPartySize: pick(random, [4, 6, 8, 10, 12]),
+  }));
+}
+
+// =============================================================================
+// Orders
+// =============================================================================
+
+// Maria has more orders than one lookup page holds, so email lookups page
+const CUSTOMERS = [
+  { name: 'Maria Garcia', email: 'maria.garcia@example.com', orders: 7 },
+  { name: 'James Chen', email: 'james.chen@example.com', orders: 2 },
+  { name: 'Priya Patel', email: 'priya.patel@example.com', orders: 2 },
+  { name: 'Tom Walker', email: 'tom.walker@example.com', orders: 2 },
+];
+
+const PRODUCTS = [
+  { productId: 'SKU-101', name: 'Wireless Headphones', price: 129.99 },
+  { productId: 'SKU-102', name: 'Coffee Grinder', price: 64.5 },
+  { productId: 'SKU-103', name: 'Running Shoes', price: 94 },
+  { productId: 'SKU-104', name: 'Desk Lamp', price: 39.95 },
+  { productId: 'SKU-105', name: 'Backpack', price: 79 },
+];
+
+const ADDRESSES: Address[] = [
+  { street: '742 Evergreen Terrace', city: 'Springfield', state: 'OR', zip: '97477', country: 'US' },
+  { street: '1600 Pennsylvania Ave', city: 'Washington', state: 'DC', zip: '20500', country: 'US' },
+  { street: '221 Baker St', city: 'Portland', state: 'ME', zip: '04101', country: 'US' },
+  { street: '12 Market St', city: 'San Francisco', state: 'CA', zip: '94105', country: 'US' },
+];
+
+/**
+ * The order book, dated back from `today` (YYYY-MM-DD). Every customer gets
+ * orders spread over the statuses the support agent has to deal with; each
+ * one's newest order is inside the return window and the older ones drift out
+ * of it.
+ */
+export function generateOrders(seed: number, today: string): Order[] {
+  const random = createRandom(seed, 'orders');
+  const statuses: Order['status'][] = ['pending', 'shipped', 'delivered', 'cancelled', 'lost', 'damaged'];
+  const orders: Order[] = [];
+
+  CUSTOMERS.forEach((customer) => {
+    for (let n = 0; n < customer.orders; n++) {
+      const items = Array.from({ length: between(random, 1, 3) }, () => ({
+        ...pick(random, PRODUCTS),
+        quantity: between(random, 1, 2),
+      }));
+      const total = Math.round(items.reduce((sum, item) => sum + item.price * item.quantity, 0) * 100) / 100;
+      const status = statuses[orders.length % statuses.length];
+      const orderDate = new Date(`${today}T00:00:00Z`);
+      orderDate.setUTCDate(orderDate.getUTCDate() - between(random, n * 20 + 1, n * 20 + 14));
+
+      orders.push({
+        orderId: `ORD-${1001 + orders.length}`,
+        customerName: customer.name,
+        email: customer.email,
+        items,
+        total,
+        status,
+        shippingAddress: pick(random, ADDRESSES),
+        ...(status !== 'pending' && { trackingNumber: `1Z${randomCode(random, 12)}` }),
+        orderDate: orderDate.toISOString().slice(0, 10),
+      });
+    }
+  });
+
+  return orders;
+}
@@ -0,0 +1,251 @@
+/**
+ * Mock API Server
+ *
+ * Local stand-in for https://api.example.com. Serves every route the example
+ * tools call, backed by a seeded in-memory store. Request bodies are checked
+ * per route; a missing or mistyped field gets a 400 `invalid_request`.
+ *
+ *   pnpm mock-api --port 4010 --seed 42
+ *   pnpm mock-api --now 2025-03-14T09:00:00-07:00 --time-zone America/Los_Angeles
+ *   API_BASE_URL=http://localhost:4010 pnpm test
+ *
+ * Besides the API routes it exposes:
+ *   GET  /_state          every collection, keyed like the Multiverse world
+ *   POST /_reset?seed=N   drop all state and regenerate fixtures
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { fixedClock, type ClockConfig } from '../clock.js';
+import { ApiError, createStore, type Store } from './store.js';
+
+export const DEFAULT_PORT = 4010;
+
+type Handler = (query: URLSearchParams, body: unknown) => unknown;
+
+// =============================================================================
+// Request bodies
+// =============================================================================
+
+const PassengerBody = z.object({
+  name: z.string(),
+  dateOfBirth: z.string().optional(),
+  seatPreference: z.enum(['window', 'aisle', 'middle']).optional(),
+  knownTravelerNumber: z.string().optional(),
+});
+
+const AddressBody = z.object({
+  street: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  country: z.string(),
+});
+
+const GuestBody = z.object({
+  restaurantId: z.string(),
+  partySize: z.number().int().positive(),
+  date: z.string(),
+  time: z.string(),
+  guestName: z.string(),
+  phone: z.string(),
+});
+
+const bodies = {
+  bookFlight: z.object({
+    flightId: z.string(),
+    itineraryId: z.string().optional(),
+    passengers: z.array(PassengerBody),
+    email: z.string(),
+    creditCard: z.object({ number: z.string(), expiry: z.string(), cvv: z.string() }),
+  }),
+  cancelBooking: z.object({ bookingId: z.string(), reason: z.string().optional() }),
+  changeFlight: z.object({ bookingId: z.string(), newFlightId: z.string() }),
+  makeReservation: GuestBody,
+  modifyReservation: z.object({
+    reservationId: z.string(),
+    partySize: z.number().int().positive().optional(),
+    date: z.string().optional(),
+    time: z.string().optional(),
+  }),
+  cancelReservation: z.object({ reservationId: z.string() }),
+  joinWaitlist: GuestBody,
+  verifyCustomer: z.object({ orderId: z.string(), email: z.string().optional(), postalCode: z.string().optional() }),
+  processRefund: z.object({ orderId: z.string(), reason: z.string(), amount: z.number().positive().optional() }),
+  updateShippingAddress: z.object({ orderId: z.string(), newAddress: AddressBody }),
+  createTicket: z.object({
+    orderId: z.string().optional(),
+    category: z.enum(['damaged_item', 'missing_package', 'complaint', 'other']),
+    priority: z.enum(['low', 'normal', 'high', 'urgent']),
+    summary: z.string(),
+  }),
+};
+
+/** The body as `schema` types it, or a 400 naming every field that's missing or wrong. */
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.output<T> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const fields = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+    throw new ApiError(400, 'invalid_request', `Invalid request body — ${fields.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+function routes(store: Store): Record<string, Handler> {
+  return {
+    'GET /flights/search': (query) =>
+      store.searchFlights({
+        from: required(query, 'from'),
+        to: required(query, 'to'),
+        date: required(query, 'date'),
+        returnDate: query.get('returnDate') ?? undefined,
+        pax: Number(query.get('pax') ?? 1),
+      }),
+    'POST /flights/book': (_, body) => store.bookFlight(parseBody(bodies.bookFlight, body)),
+    'POST /flights/cancel': (_, body) => store.cancelBooking(parseBody(bodies.cancelBooking, body)),
+    'POST /flights/change': (_, body) => store.changeFlight(parseBody(bodies.changeFlight, body)),
+
+    'GET /restaurants/search': (query) =>
+      store.searchRestaurants({
+        location: required(query, 'location'),
+        partySize: Number(query.get('partySize') ?? 1),
+        cuisine: query.get('cuisine') ?? undefined,
+        priceRange: query.get('priceRange') ?? undefined,
+      }),
+    'POST /restaurants/reserve': (_, body) => store.makeReservation(parseBody(bodies.makeReservation, body)),
+    'POST /restaurants/modify': (_, body) => store.modifyReservation(parseBody(bodies.modifyReservation, body)),
+    'POST /restaurants/cancel': (_, body) => store.cancelReservation(parseBody(bodies.cancelReservation, body)),
+    'POST /restaurants/waitlist': (_, body) => store.joinWaitlist(parseBody(bodies.joinWaitlist, body)),
+
+    'GET /orders/lookup': (query) =>
+      store.lookupOrders({
+        orderId: query.get('orderId') ?? undefined,
+        email: query.get('email') ?? undefined,
+        page: query.has('page') ? Number(query.get('page')) : undefined,
+        pageSize: query.has('pageSize') ? Number(query.get('pageSize')) : undefined,
+      }),
+    'POST /orders/verify': (_, body) => store.verifyCustomer(parseBody(bodies.verifyCustomer, body)),
+    'POST /orders/refund': (_, body) => store.processRefund(parseBody(bodies.processRefund, body)),
+    'POST /orders/update-address': (_, body) => store.updateShippingAddress(parseBody(bodies.updateShippingAddress, body)),
+    'POST /support/tickets': (_, body) => store.createTicket(parseBody(bodies.createTicket, body)),
+
+    'GET /_state': () => store.snapshot(),
+    'POST /_reset': (query) => {
+      store.reset(query.has('seed') ? Number(query.get('seed')) : undefined);
+      return { seed: store.seed };
+    },
+  };
+}
+
+function required(query: URLSearchParams, name: string): string {
+  const value = query.get(name);
+  if (!value) {
+    throw new ApiError(400, 'invalid_request', `Missing query parameter: ${name}`);
+  }
+  return value;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ApiError(400, 'invalid_request', 'Request body is not valid JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+export interface MockApi {
+  url: string;
+  store: Store;
+  server: Server;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start the mock API. Pass `port: 0` to pick a free port (useful in tests),
+ * and the suite's `clock` to date the store the way the simulated run does.
+ */
+export async function startMockApi(
+  options: { port?: number; seed?: number; clock?: ClockConfig } = {}
+): Promise<MockApi> {
+  const store = createStore(options.seed, options.clock && fixedClock(options.clock));
+  const table = routes(store);
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    const handler = table[route];
+
+    if (!handler) {
+      send(res, 404, { error: { code: 'not_found', message: `No route for ${route}` } });
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await readBody(req) : undefined;
+      // Writes sent with an Idempotency-Key run once per key
+      const key = req.headers['idempotency-key'];
+      send(
+        res,
+        200,
+        typeof key === 'string' && key
+          ? store.once(route, key, body, () => handler(url.searchParams, body))
+          : handler(url.searchParams, body)
+      );
+    } catch (err) {
+      if (err instanceof ApiError) {
+        send(res, err.status, { error: { code: err.code, message: err.message } });
+      } else {
+        send(res, 500, { error: { code: 'internal', message: err instanceof Error ? err.message : String(err) } });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? DEFAULT_PORT, resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://localhost:${port}`,
+    store,
+    server,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: process.env.MOCK_API_PORT ?? String(DEFAULT_PORT) },
+      seed: { type: 'string', default: '1' },
+      now: { type: 'string' },
+      'time-zone': { type: 'string' },
+    },
+  });
+
+  const clock = values.now ? { now: values.now, timeZone: values['time-zone'] } : undefined;
+  startMockApi({ port: Number(values.port), seed: Number(values.seed), clock }).then((api) => {
+    console.log(`Mock API listening on ${api.url} (seed ${api.store.seed})`);
+    console.log(`Run the agents against it with API_BASE_URL=${api.url}`);
+  });
+}
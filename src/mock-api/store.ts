@@ -0,0 +1,635 @@
+/**
+ * Mock API Store
+ *
+ * In-memory backend state behind the mock API. Collections use the same
+ * names and ids as the Multiverse world, so a real-mode run can be compared
+ * entity by entity with a simulated one.
+ *
+ * "Today" comes from the store's clock, the system clock unless one is given,
+ * so a store pinned to a suite's clock dates orders, refunds and the return
+ * window the way the simulated run does.
+ */
+
+import { localDate, systemClock, type Clock } from '../clock.js';
+import { refundPolicy } from '../config.js';
+import {
+  createRandom,
+  generateFlights,
+  generateOrders,
+  generateRestaurants,
+  randomCode,
+  type Address,
+  type Booking,
+  type Flight,
+  type Itinerary,
+  type Order,
+  type OrderPage,
+  type Passenger,
+  type Random,
+  type Refund,
+  type Reservation,
+  type Restaurant,
+  type ShippingUpdate,
+  type Ticket,
+  type Verification,
+  type WaitlistEntry,
+} from './fixtures.js';
+
+/**
+ * Error with an HTTP status, thrown by store operations and turned into a
+ * JSON error response by the server.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface Collections {
+  itineraries: Map<string, Itinerary>;
+  flights: Map<string, Flight>;
+  bookings: Map<string, Booking>;
+  restaurants: Map<string, Restaurant>;
+  reservations: Map<string, Reservation>;
+  waitlist: Map<string, WaitlistEntry>;
+  orders: Map<string, Order>;
+  refunds: Map<string, Refund>;
+  shippingUpdates: Map<string, ShippingUpdate>;
+  verifications: Map<string, Verification>;
+  tickets: Map<string, Ticket>;
+}
+
+export type Store = ReturnType<typeof createStore>;
+
+/** Card number the mock payment processor always declines. */
+export const DECLINED_CARD_NUMBER = '4000000000000002';
+
+/** Orders per page of an email lookup, unless the request asks otherwise. */
+export const DEFAULT_PAGE_SIZE = 5;
+
+/** Airline fees — cancellation per booking, change per passenger — capped at the fare. */
+export const CANCELLATION_FEE = 50;
+export const CHANGE_FEE = 75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createStore(seed = 1, clock: Clock = systemClock) {
+  let random: Random;
+  let collections: Collections;
+  const searchedRoutes = new Set<string>();
+  const searchedLocations = new Set<string>();
+  const idempotencyKeys = new Map<string, { request: string; result: unknown }>();
+
+  /** Drop all state and regenerate the fixtures, keeping the seed and clock unless given new ones. */
+  function reset(nextSeed = seed, nextClock = clock): void {
+    seed = nextSeed;
+    clock = nextClock;
+    random = createRandom(seed, 'ids');
+    searchedRoutes.clear();
+    searchedLocations.clear();
+    idempotencyKeys.clear();
+    collections = {
+      itineraries: new Map(),
+      flights: new Map(),
+      bookings: new Map(),
+      restaurants: new Map(),
+      reservations: new Map(),
+      waitlist: new Map(),
+      orders: new Map(generateOrders(seed, today()).map((order) => [order.orderId, order])),
+      refunds: new Map(),
+      shippingUpdates: new Map(),
+      verifications: new Map(),
+      tickets: new Map(),
+    };
+  }
+
+  function nextId(prefix: string): string {
+    return `${prefix}-${randomCode(random, 8)}`;
+  }
+
+  function today(): string {
+    return localDate(clock);
+  }
+
+  reset(seed);
+
+  // ===========================================================================
+  // Flights
+  // ===========================================================================
+
+  function flightsFor(from: string, to: string, date: string, pax: number): Flight[] {
+    const routeKey = `${from}:${to}:${date}`;
+
+    if (!searchedRoutes.has(routeKey)) {
+      searchedRoutes.add(routeKey);
+      for (const flight of generateFlights(seed, from, to, date)) {
+        collections.flights.set(flight.id, flight);
+      }
+    }
+
+    return [...collections.flights.values()].filter(
+      (f) => f.from === from && f.to === to && f.departure.startsWith(date) && f.seatsAvailable >= pax
+    );
+  }
+
+  function searchFlights(query: { from: string; to: string; date: string; returnDate?: string; pax: number }) {
+    const from = query.from.toUpperCase();
+    const to = query.to.toUpperCase();
+
+    const itinerary: Itinerary = {
+      itineraryId: nextId('ITN'),
+      tripType: query.returnDate ? 'round-trip' : 'one-way',
+      from,
+      to,
+      departureDate: query.date,
+      ...(query.returnDate && { returnDate: query.returnDate }),
+    };
+    collections.itineraries.set(itinerary.itineraryId, itinerary);
+
+    const legs: Array<{ leg: 'outbound' | 'return'; from: string; to: string; date: string; flights: Flight[] }> = [
+      { leg: 'outbound', from, to, date: query.date, flights: flightsFor(from, to, query.date, query.pax) },
+    ];
+    if (query.returnDate) {
+      legs.push({
+        leg: 'return',
+        from: to,
+        to: from,
+        date: query.returnDate,
+        flights: flightsFor(to, from, query.returnDate, query.pax),
+      });
+    }
+
+    return { itineraryId: itinerary.itineraryId, tripType: itinerary.tripType, legs, searchId: nextId('SRCH') };
+  }
+
+  function bookFlight(request: {
+    flightId: string;
+    itineraryId?: string;
+    passengers: Passenger[];
+    email: string;
+    creditCard: { number: string; expiry: string; cvv: string };
+  }): Booking {
+    const flight = collections.flights.get(request.flightId);
+    if (!flight) {
+      throw new ApiError(404, 'not_found', `Flight ${request.flightId} not found`);
+    }
+    if (!Array.isArray(request.passengers) || request.passengers.length === 0) {
+      throw new ApiError(400, 'invalid_request', 'At least one passenger is required');
+    }
+    if (flight.seatsAvailable < request.passengers.length) {
+      throw new ApiError(409, 'sold_out', `Flight ${request.flightId} has ${flight.seatsAvailable} seats left`);
+    }
+    if (request.creditCard.number.replace(/\D/g, '') === DECLINED_CARD_NUMBER) {
+      throw new ApiError(402, 'payment_declined', 'Card was declined');
+    }
+
+    const itinerary = request.itineraryId ? collections.itineraries.get(request.itineraryId) : undefined;
+    if (request.itineraryId && !itinerary) {
+      throw new ApiError(404, 'not_found', `Itinerary ${request.itineraryId} not found`);
+    }
+
+    flight.seatsAvailable -= request.passengers.length;
+    const booking: Booking = {
+      bookingId: nextId('BK'),
+      flightId: flight.id,
+      passengers: request.passengers,
+      passengerCount: request.passengers.length,
+      ...(itinerary && {
+        itineraryId: itinerary.itineraryId,
+        leg: flight.from === itinerary.from ? ('outbound' as const) : ('return' as const),
+      }),
+      status: 'confirmed',
+      totalPrice: flight.price * request.passengers.length,
+      confirmationCode: randomCode(random),
+    };
+    collections.bookings.set(booking.bookingId, booking);
+    return booking;
+  }
+
+  function activeBooking(bookingId: string): Booking {
+    const booking = collections.bookings.get(bookingId);
+    if (!booking) {
+      throw new ApiError(404, 'not_found', `Booking ${bookingId} not found`);
+    }
+    if (booking.status === 'cancelled' || booking.status === 'failed') {
+      throw new ApiError(409, 'booking_closed', `Booking ${bookingId} is ${booking.status}`);
+    }
+    return booking;
+  }
+
+  function cancelBooking(request: { bookingId: string; reason?: string }): Booking {
+    const booking = activeBooking(request.bookingId);
+    const flight = collections.flights.get(booking.flightId);
+
+    const cancellationFee = Math.min(CANCELLATION_FEE, booking.totalPrice);
+    booking.status = 'cancelled';
+    booking.cancellationFee = cancellationFee;
+    booking.refundAmount = booking.totalPrice - cancellationFee;
+    if (flight) flight.seatsAvailable += booking.passengerCount;
+    return booking;
+  }
+
+  function changeFlight(request: { bookingId: string; newFlightId: string }): Booking {
+    const booking = activeBooking(request.bookingId);
+    const newFlight = collections.flights.get(request.newFlightId);
+    if (!newFlight) {
+      throw new ApiError(404, 'not_found', `Flight ${request.newFlightId} not found`);
+    }
+    if (newFlight.seatsAvailable < booking.passengerCount) {
+      throw new ApiError(409, 'sold_out', `Flight ${request.newFlightId} has ${newFlight.seatsAvailable} seats left`);
+    }
+
+    const oldFlight = collections.flights.get(booking.flightId);
+    if (oldFlight) oldFlight.seatsAvailable += booking.passengerCount;
+    newFlight.seatsAvailable -= booking.passengerCount;
+
+    const newFare = newFlight.price * booking.passengerCount;
+    const changeFee = Math.min(CHANGE_FEE * booking.passengerCount, newFare);
+    booking.previousFlightId = booking.flightId;
+    booking.flightId = newFlight.id;
+    booking.changeFee = changeFee;
+    booking.totalPrice = Math.max(booking.totalPrice, newFare) + changeFee;
+    booking.status = 'changed';
+    return booking;
+  }
+
+  // ===========================================================================
+  // Restaurants
+  // ===========================================================================
+
+  function searchRestaurants(query: {
+    location: string;
+    partySize: number;
+    cuisine?: string;
+    priceRange?: string;
+  }) {
+    const locationKey = query.location.toLowerCase();
+
+    if (!searchedLocations.has(locationKey)) {
+      searchedLocations.add(locationKey);
+      for (const restaurant of generateRestaurants(seed, query.location)) {
+        collections.restaurants.set(restaurant.id, restaurant);
+      }
+    }
+
+    const restaurants = [...collections.restaurants.values()].filter(
+      (r) =>
+        r.location.toLowerCase() === locationKey &&
+        r.maxPartySize >= query.partySize &&
+        (!query.cuisine || r.cuisine.toLowerCase() === query.cuisine.toLowerCase()) &&
+        (!query.priceRange || r.priceRange === query.priceRange)
+    );
+    return { restaurants, searchId: nextId('SRCH') };
+  }
+
+  function getRestaurant(restaurantId: string): Restaurant {
+    const restaurant = collections.restaurants.get(restaurantId);
+    if (!restaurant) {
+      throw new ApiError(404, 'not_found', `Restaurant ${restaurantId} not found`);
+    }
+    return restaurant;
+  }
+
+  function makeReservation(request: {
+    restaurantId: string;
+    partySize: number;
+    date: string;
+    time: string;
+    guestName: string;
+    phone: string;
+  }): Reservation {
+    const restaurant = getRestaurant(request.restaurantId);
+    if (request.partySize > restaurant.maxPartySize) {
+      throw new ApiError(422, 'party_too_large', `${restaurant.name} seats at most ${restaurant.maxPartySize}`);
+    }
+    if (!restaurant.availableTimes.includes(request.time)) {
+      throw new ApiError(409, 'sold_out', `${request.time} is not available at ${restaurant.name}`);
+    }
+
+    restaurant.availableTimes = restaurant.availableTimes.filter((t) => t !== request.time);
+    const reservation: Reservation = {
+      reservationId: nextId('RSV'),
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      partySize: request.partySize,
+      date: request.date,
+      time: request.time,
+      guestName: request.guestName,
+      phone: request.phone,
+      confirmationCode: randomCode(random),
+      status: 'confirmed',
+    };
+    collections.reservations.set(reservation.reservationId, reservation);
+    return reservation;
+  }
+
+  function getActiveReservation(reservationId: string): Reservation {
+    const reservation = collections.reservations.get(reservationId);
+    if (!reservation) {
+      throw new ApiError(404, 'not_found', `Reservation ${reservationId} not found`);
+    }
+    if (reservation.status === 'cancelled') {
+      throw new ApiError(409, 'reservation_cancelled', `Reservation ${reservationId} is cancelled`);
+    }
+    return reservation;
+  }
+
+  function freeSlot(restaurant: Restaurant, time: string): void {
+    if (!restaurant.availableTimes.includes(time)) {
+      restaurant.availableTimes = [...restaurant.availableTimes, time].sort();
+    }
+  }
+
+  function modifyReservation(request: {
+    reservationId: string;
+    partySize?: number;
+    date?: string;
+    time?: string;
+  }): Reservation {
+    const reservation = getActiveReservation(request.reservationId);
+    const restaurant = getRestaurant(reservation.restaurantId);
+    const partySize = request.partySize ?? reservation.partySize;
+    const time = request.time ?? reservation.time;
+
+    if (partySize > restaurant.maxPartySize) {
+      throw new ApiError(422, 'party_too_large', `${restaurant.name} seats at most ${restaurant.maxPartySize}`);
+    }
+    if (time !== reservation.time) {
+      if (!restaurant.availableTimes.includes(time)) {
+        throw new ApiError(409, 'sold_out', `${time} is not available at ${restaurant.name}`);
+      }
+      freeSlot(restaurant, reservation.time);
+      restaurant.availableTimes = restaurant.availableTimes.filter((t) => t !== time);
+      reservation.previousTime = reservation.time;
+      reservation.time = time;
+    }
+
+    reservation.partySize = partySize;
+    reservation.date = request.date ?? reservation.date;
+    return reservation;
+  }
+
+  function cancelReservation(request: { reservationId: string }): Reservation {
+    const existing = collections.reservations.get(request.reservationId);
+    // Cancelling twice is a no-op, so retries are safe
+    if (existing?.status === 'cancelled') return existing;
+
+    const reservation = getActiveReservation(request.reservationId);
+    freeSlot(getRestaurant(reservation.restaurantId), reservation.time);
+    reservation.status = 'cancelled';
+    return reservation;
+  }
+
+  function joinWaitlist(request: {
+    restaurantId: string;
+    partySize: number;
+    date: string;
+    time: string;
+    guestName: string;
+    phone: string;
+  }): WaitlistEntry {
+    const restaurant = getRestaurant(request.restaurantId);
+    if (request.partySize > restaurant.maxPartySize) {
+      throw new ApiError(422, 'party_too_large', `${restaurant.name} seats at most ${restaurant.maxPartySize}`);
+    }
+    if (restaurant.availableTimes.includes(request.time)) {
+      throw new ApiError(409, 'slot_available', `${request.time} is still open at ${restaurant.name} - book it instead`);
+    }
+
+    const ahead = [...collections.waitlist.values()].filter(
+      (w) =>
+        w.restaurantId === restaurant.id && w.date === request.date && w.time === request.time && w.status === 'waiting'
+    );
+    const entry: WaitlistEntry = {
+      waitlistId: nextId('WL'),
+      restaurantId: restaurant.id,
+      partySize: request.partySize,
+      date: request.date,
+      time: request.time,
+      guestName: request.guestName,
+      phone: request.phone,
+      position: ahead.length + 1,
+      status: 'waiting',
+    };
+    collections.waitlist.set(entry.waitlistId, entry);
+    return entry;
+  }
+
+  // ===========================================================================
+  // Orders
+  // ===========================================================================
+
+  function getOrder(orderId: string): Order {
+    const order = collections.orders.get(orderId);
+    if (!order) {
+      throw new ApiError(404, 'not_found', 'No matching order found');
+    }
+    return order;
+  }
+
+  /** One order by id, or a page of a customer's orders by email, newest first. */
+  function lookupOrders(query: { orderId?: string; email?: string; page?: number; pageSize?: number }): OrderPage {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ApiError(400, 'invalid_request', 'page and pageSize must be positive integers');
+    }
+    if (!query.orderId && !query.email) {
+      throw new ApiError(400, 'invalid_request', 'Provide an order ID or email');
+    }
+
+    const matches = query.orderId
+      ? [getOrder(query.orderId)]
+      : [...collections.orders.values()]
+          .filter((o) => o.email.toLowerCase() === query.email?.toLowerCase())
+          .sort((a, b) => b.orderDate.localeCompare(a.orderDate));
+    if (matches.length === 0) {
+      throw new ApiError(404, 'not_found', 'No matching order found');
+    }
+
+    const start = (page - 1) * pageSize;
+    return {
+      orders: matches.slice(start, start + pageSize),
+      page,
+      pageSize,
+      totalOrders: matches.length,
+      hasMore: start + pageSize < matches.length,
+    };
+  }
+
+  function verifyCustomer(request: { orderId: string; email?: string; postalCode?: string }): Verification {
+    const order = getOrder(request.orderId);
+    if (!request.email && !request.postalCode) {
+      throw new ApiError(400, 'invalid_request', 'Provide the email or postal code on the order');
+    }
+
+    const verified = request.email
+      ? request.email.trim().toLowerCase() === order.email.toLowerCase()
+      : request.postalCode!.trim() === order.shippingAddress.zip;
+    const verification: Verification = {
+      verificationId: nextId('VER'),
+      orderId: order.orderId,
+      method: request.email ? 'email' : 'postalCode',
+      verified,
+      verifiedDate: today(),
+    };
+    collections.verifications.set(verification.verificationId, verification);
+    return verification;
+  }
+
+  /** Refunds and address changes need a successful verification of the order first. */
+  function requireVerified(order: Order): void {
+    const verified = [...collections.verifications.values()].some((v) => v.orderId === order.orderId && v.verified);
+    if (!verified) {
+      throw new ApiError(403, 'verification_required', `Verify the customer on ${order.orderId} first`);
+    }
+  }
+
+  function processRefund(request: { orderId: string; reason: string; amount?: number }): Refund {
+    const order = getOrder(request.orderId);
+    requireVerified(order);
+    if (order.status === 'cancelled' || order.status === 'refunded') {
+      throw new ApiError(409, 'order_closed', `Order ${order.orderId} is already ${order.status}`);
+    }
+
+    const { returnWindowDays } = refundPolicy();
+    const days = Math.floor((Date.parse(today()) - Date.parse(order.orderDate)) / DAY_MS);
+    if (days > returnWindowDays) {
+      throw new ApiError(
+        422,
+        'outside_return_window',
+        `Order ${order.orderId} was placed ${days} days ago, past the ${returnWindowDays}-day return window`
+      );
+    }
+
+    const refunded = [...collections.refunds.values()]
+      .filter((r) => r.orderId === order.orderId && r.status !== 'rejected')
+      .reduce((sum, r) => sum + r.amount, 0);
+    const remaining = Math.round((order.total - refunded) * 100) / 100;
+    const amount = request.amount ?? remaining;
+    if (amount <= 0 || amount > remaining) {
+      throw new ApiError(422, 'amount_exceeds_total', `At most ${remaining.toFixed(2)} can be refunded on ${order.orderId}`);
+    }
+
+    order.status = amount === remaining ? 'refunded' : 'partially_refunded';
+    const refund: Refund = {
+      refundId: nextId('RF'),
+      orderId: order.orderId,
+      amount,
+      reason: request.reason,
+      status: 'approved',
+      processedDate: today(),
+    };
+    collections.refunds.set(refund.refundId, refund);
+    return refund;
+  }
+
+  function updateShippingAddress(request: { orderId: string; newAddress: Address }): ShippingUpdate {
+    const order = getOrder(request.orderId);
+    requireVerified(order);
+    if (order.status === 'delivered') {
+      throw new ApiError(409, 'already_delivered', `Order ${order.orderId} has already been delivered`);
+    }
+
+    const update: ShippingUpdate = {
+      updateId: nextId('SHU'),
+      orderId: order.orderId,
+      oldAddress: order.shippingAddress,
+      newAddress: request.newAddress,
+      status: 'updated',
+      updatedDate: today(),
+    };
+    order.shippingAddress = request.newAddress;
+    collections.shippingUpdates.set(update.updateId, update);
+    return update;
+  }
+
+  // ===========================================================================
+  // Support tickets
+  // ===========================================================================
+
+  function createTicket(request: Omit<Ticket, 'ticketId' | 'status' | 'createdDate'>): Ticket {
+    if (request.orderId) {
+      getOrder(request.orderId);
+      const open = [...collections.tickets.values()].find((t) => t.orderId === request.orderId && t.status === 'open');
+      if (open) {
+        throw new ApiError(409, 'ticket_exists', `Order ${request.orderId} already has open ticket ${open.ticketId}`);
+      }
+    }
+
+    const ticket: Ticket = {
+      ticketId: nextId('TCK'),
+      ...(request.orderId && { orderId: request.orderId }),
+      category: request.category,
+      priority: request.priority,
+      summary: request.summary,
+      status: 'open',
+      createdDate: today(),
+    };
+    collections.tickets.set(ticket.ticketId, ticket);
+    return ticket;
+  }
+
+  // ===========================================================================
+  // Idempotency
+  // ===========================================================================
+
+  /**
+   * Run a write once per idempotency key: a repeated key gets the entity the
+   * first request created, and reusing a key for a different request is an error.
+   */
+  function once<T>(route: string, key: string, request: unknown, run: () => T): T {
+    const scoped = `${route} ${key}`;
+    const fingerprint = JSON.stringify(request);
+    const previous = idempotencyKeys.get(scoped);
+    if (previous) {
+      if (previous.request !== fingerprint) {
+        throw new ApiError(422, 'idempotency_key_reused', `Idempotency key ${key} was already used for a different request`);
+      }
+      return previous.result as T;
+    }
+
+    const result = run();
+    idempotencyKeys.set(scoped, { request: fingerprint, result });
+    return result;
+  }
+
+  // ===========================================================================
+  // State
+  // ===========================================================================
+
+  /** Every collection as plain objects keyed by entity id. */
+  function snapshot(): Record<keyof Collections, Record<string, unknown>> {
+    return Object.fromEntries(
+      Object.entries(collections).map(([name, entities]) => [name, Object.fromEntries(entities)])
+    ) as Record<keyof Collections, Record<string, unknown>>;
+  }
+
+  return {
+    get seed() {
+      return seed;
+    },
+    reset,
+    snapshot,
+    once,
+    searchFlights,
+    bookFlight,
+    cancelBooking,
+    changeFlight,
+    searchRestaurants,
+    makeReservation,
+    modifyReservation,
+    cancelReservation,
+    joinWaitlist,
+    lookupOrders,
+    verifyCustomer,
+    processRefund,
+    updateShippingAddress,
+    createTicket,
+  };
+}
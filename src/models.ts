@@ -0,0 +1,69 @@
+/**
+ * Chat Models
+ *
+ * Builds the chat model an agent runs on from a provider-neutral config:
+ * Anthropic, any OpenAI-compatible endpoint (OpenAI itself or a local server
+ * such as Ollama or vLLM), or an offline stub that replays a scripted
+ * conversation and needs no network or keys.
+ */
+
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { ScriptedChatModel, type ChatScript } from './scripted-model.js';
+
+export type ModelProvider = 'anthropic' | 'openai' | 'stub';
+
+export const MODEL_PROVIDERS: readonly ModelProvider[] = ['anthropic', 'openai', 'stub'];
+
+export interface ModelConfig {
+  provider: ModelProvider;
+  /** Provider model name. Defaults per provider. */
+  model?: string;
+  temperature?: number;
+  /** OpenAI-compatible endpoint, e.g. `http://localhost:11434/v1` */
+  baseUrl?: string;
+  apiKey?: string;
+  /** Name of the script the `stub` provider replays (see `AgentOptions.scripts`) */
+  script?: string;
+}
+
+export const DEFAULT_MODELS: Record<ModelProvider, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o',
+  stub: 'stub',
+};
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/** `script` is what the `stub` provider replays; other providers ignore it. */
+export function createChatModel(config: ModelConfig, script?: ChatScript): BaseChatModel {
+  const model = config.model ?? DEFAULT_MODELS[config.provider];
+  const temperature = config.temperature ?? 0;
+
+  switch (config.provider) {
+    case 'anthropic': {
+      if (!config.apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+      }
+      return new ChatAnthropic({ model, temperature, anthropicApiKey: config.apiKey });
+    }
+    case 'openai': {
+      // Local OpenAI-compatible servers usually ignore the key, but the client requires one
+      const apiKey = config.apiKey ?? (config.baseUrl ? 'not-needed' : undefined);
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is not set (or set OPENAI_BASE_URL for a local server)');
+      }
+      return new ChatOpenAI({
+        model,
+        temperature,
+        apiKey,
+        ...(config.baseUrl && { configuration: { baseURL: config.baseUrl } }),
+      });
+    }
+    case 'stub':
+      return new ScriptedChatModel(script);
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Success Predicates
+ *
+ * Composable checks on the final world of a run. Each returns whether it held
+ * and, when it didn't, which condition failed:
+ *
+ *   success: all(
+ *     exists('bookings', { status: oneOf(['confirmed', 'changed']) }),
+ *     related('bookings', 'flightId', 'flights', (s) => ({ from: s.variables?.from, to: s.variables?.to })),
+ *     none('refunds'),
+ *   )
+ *
+ * Field values match by equality, or pass a matcher such as `oneOf()` or
+ * `startsWith()`. Field sets can be a function of the scenario, so they can
+ * read its generated variables. The runner prints the failure reasons of every
+ * failed run with the suite results.
+ *
+ * Trajectory predicates check what the agent did on the way, from the run's
+ * recorded trajectory (src/trajectory.ts), and combine with the rest:
+ *
+ *   success: all(exists('refunds'), calledBefore('verifyCustomer', 'processRefund', { sameArg: 'orderId' }))
+ */
+
+import type { Entity, Scenario, Trace, WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import { agentReplies } from './conversation.js';
+import { toolCalls, trajectoryFor, type Trajectory } from './trajectory.js';
+
+export interface CheckResult {
+  passed: boolean;
+  /** Why the check failed, or what held when it passed */
+  reason: string;
+}
+
+/** The run being checked, as the agent saw it. */
+export interface RunInfo {
+  /** The `runId` `runAgent` was called with */
+  runId: string;
+}
+
+export type Predicate = (world: WorldStateAccessor, trace: Trace, scenario: Scenario, run?: RunInfo) => CheckResult;
+
+// =============================================================================
+// Field matching
+// =============================================================================
+
+export type Matcher = ((value: unknown) => boolean) & { description: string };
+
+/** Expected field values. Literals match by equality; `undefined` values are ignored. */
+export type Fields = Record<string, unknown>;
+
+/** Fixed fields, or fields read from the scenario (e.g. its variables). */
+export type FieldsFor = Fields | ((scenario: Scenario) => Fields);
+
+function matcher(description: string, test: (value: unknown) => boolean): Matcher {
+  return Object.assign(test, { description });
+}
+
+export function oneOf(values: unknown[]): Matcher {
+  return matcher(`one of ${values.map((v) => JSON.stringify(v)).join(' | ')}`, (value) => values.includes(value));
+}
+
+export function startsWith(prefix: string): Matcher {
+  return matcher(`starting with ${JSON.stringify(prefix)}`, (value) => String(value ?? '').startsWith(prefix));
+}
+
+export function ignoringCase(expected: string): Matcher {
+  return matcher(
+    `${JSON.stringify(expected)} (any case)`,
+    (value) => typeof value === 'string' && value.trim().toLowerCase() === expected.trim().toLowerCase()
+  );
+}
+
+export function typeOf(type: 'string' | 'number' | 'boolean' | 'object'): Matcher {
+  return matcher(`of type ${type}`, (value) => typeof value === type && value !== null);
+}
+
+/** An array field holding an item that matches, or a string field containing the text. */
+export function includes(expected: unknown): Matcher {
+  return matcher(`including ${JSON.stringify(expected)}`, (value) =>
+    Array.isArray(value)
+      ? value.some((item) => isMatch(item, expected))
+      : String(value ?? '').includes(String(expected))
+  );
+}
+
+function isMatcher(expected: unknown): expected is Matcher {
+  return typeof expected === 'function';
+}
+
+function isMatch(actual: unknown, expected: unknown): boolean {
+  if (isMatcher(expected)) return expected(actual);
+  if (expected && typeof expected === 'object' && actual && typeof actual === 'object') {
+    return Object.entries(expected).every(([key, value]) => isMatch((actual as Record<string, unknown>)[key], value));
+  }
+  return actual === expected;
+}
+
+function resolveFields(fields: FieldsFor | undefined, scenario: Scenario): Fields {
+  const resolved = typeof fields === 'function' ? fields(scenario) : (fields ?? {});
+  return Object.fromEntries(Object.entries(resolved).filter(([, value]) => value !== undefined));
+}
+
+function matches(entity: Entity, fields: Fields): boolean {
+  return Object.entries(fields).every(([key, expected]) => isMatch(entity.data[key], expected));
+}
+
+/** `status one of "confirmed" | "changed", from = "SFO"` */
+export function describeFields(fields: Fields): string {
+  const parts = Object.entries(fields).map(([key, expected]) =>
+    isMatcher(expected) ? `${key} ${expected.description}` : `${key} = ${JSON.stringify(expected)}`
+  );
+  return parts.length > 0 ? parts.join(', ') : 'any fields';
+}
+
+function entities(world: WorldStateAccessor, collection: string, fields: Fields): Entity[] {
+  return [...world.getCollection(collection).values()].filter((entity) => matches(entity, fields));
+}
+
+function result(passed: boolean, reason: string): CheckResult {
+  return { passed, reason };
+}
+
+// =============================================================================
+// World predicates
+// =============================================================================
+
+/** At least one entity in `collection` has the given fields. */
+export function exists(collection: string, fields?: FieldsFor): Predicate {
+  return (world, _trace, scenario) => {
+    const expected = resolveFields(fields, scenario);
+    const found = entities(world, collection, expected);
+    return found.length > 0
+      ? result(true, `${collection}/${found[0].id} has ${describeFields(expected)}`)
+      : result(
+          false,
+          `no ${collection} entity with ${describeFields(expected)} (${world.getCollection(collection).size} in the world)`
+        );
+  };
+}
+
+/** Between `min` and `max` entities (inclusive) in `collection` have the given fields. */
+export function count(collection: string, range: { min?: number; max?: number }, fields?: FieldsFor): Predicate {
+  return (world, _trace, scenario) => {
+    const expected = resolveFields(fields, scenario);
+    const n = entities(world, collection, expected).length;
+    const { min = 0, max = Infinity } = range;
+    const bounds = max === Infinity ? `at least ${min}` : min === max ? `exactly ${min}` : `${min}-${max}`;
+    return result(n >= min && n <= max, `${n} ${collection} with ${describeFields(expected)}, expected ${bounds}`);
+  };
+}
+
+/** No entity in `collection` has the given fields — e.g. nothing was booked. */
+export function none(collection: string, fields?: FieldsFor): Predicate {
+  return (world, _trace, scenario) => {
+    const expected = resolveFields(fields, scenario);
+    const found = entities(world, collection, expected);
+    return found.length === 0
+      ? result(true, `no ${collection} with ${describeFields(expected)}`)
+      : result(
+          false,
+          `expected no ${collection} with ${describeFields(expected)}, found ${found.map((e) => e.id).join(', ')}`
+        );
+  };
+}
+
+/**
+ * Every entity in `collection` matching `where` points through `field` at an
+ * entity in `parentCollection` with `parentFields` — e.g. every active booking
+ * is on a flight on the requested route. Fails if no entity matches `where`.
+ */
+export function related(
+  collection: string,
+  field: string,
+  parentCollection: string,
+  parentFields: FieldsFor,
+  where?: FieldsFor
+): Predicate {
+  return (world, _trace, scenario) => {
+    const children = entities(world, collection, resolveFields(where, scenario));
+    const expected = resolveFields(parentFields, scenario);
+    if (children.length === 0) {
+      return result(false, `no ${collection} with ${describeFields(resolveFields(where, scenario))} to check`);
+    }
+
+    for (const child of children) {
+      const parentId = child.data[field];
+      const parent = typeof parentId === 'string' ? world.getEntity(parentCollection, parentId) : undefined;
+      if (!parent) {
+        return result(
+          false,
+          `${collection}/${child.id} ${field} ${JSON.stringify(parentId)} is not a known ${parentCollection} entity`
+        );
+      }
+      if (!matches(parent, expected)) {
+        const mismatched = Object.keys(expected).filter((key) => !isMatch(parent.data[key], expected[key]));
+        const actual = mismatched.map((key) => `${key} = ${JSON.stringify(parent.data[key])}`).join(', ');
+        return result(
+          false,
+          `${collection}/${child.id} is on ${parentCollection}/${parent.id} with ${actual}, expected ${describeFields(expected)}`
+        );
+      }
+    }
+    return result(true, `every ${collection} ${field} points at ${parentCollection} with ${describeFields(expected)}`);
+  };
+}
+
+/** Some reply from the agent matches `pattern` — e.g. it told the user the card was declined. */
+export function agentSaid(pattern: RegExp): Predicate {
+  return (_world, trace) =>
+    agentReplies(trace).some((reply) => pattern.test(reply))
+      ? result(true, `the agent said something matching ${pattern}`)
+      : result(false, `the agent never said anything matching ${pattern}`);
+}
+
+// =============================================================================
+// Trajectory predicates
+// =============================================================================
+
+function onTrajectory(test: (trajectory: Trajectory, scenario: Scenario) => CheckResult): Predicate {
+  return (_world, _trace, scenario, run) => {
+    if (!run) return result(false, 'the run is unknown, so its trajectory could not be found');
+    const trajectory = trajectoryFor(run.runId);
+    return trajectory ? test(trajectory, scenario) : result(false, `no trajectory was recorded for run ${run.runId}`);
+  };
+}
+
+function callsTo(trajectory: Trajectory, tool: string, args: Fields) {
+  return toolCalls(trajectory).filter(
+    (call) => call.name === tool && Object.entries(args).every(([key, expected]) => isMatch(call.args[key], expected))
+  );
+}
+
+function describeCall(tool: string, args: Fields): string {
+  return Object.keys(args).length > 0 ? `${tool} with ${describeFields(args)}` : tool;
+}
+
+/** The agent called `tool` at least once, with the given arguments if any. */
+export function called(tool: string, args?: FieldsFor): Predicate {
+  return onTrajectory((trajectory, scenario) => {
+    const expected = resolveFields(args, scenario);
+    const n = callsTo(trajectory, tool, expected).length;
+    return n > 0
+      ? result(true, `called ${describeCall(tool, expected)} ${n} time(s)`)
+      : result(false, `never called ${describeCall(tool, expected)}`);
+  });
+}
+
+/** The agent never called `tool`, or never with the given arguments. */
+export function notCalled(tool: string, args?: FieldsFor): Predicate {
+  return onTrajectory((trajectory, scenario) => {
+    const expected = resolveFields(args, scenario);
+    const n = callsTo(trajectory, tool, expected).length;
+    return n === 0
+      ? result(true, `never called ${describeCall(tool, expected)}`)
+      : result(false, `expected no ${describeCall(tool, expected)} calls, found ${n}`);
+  });
+}
+
+/**
+ * Every call to `then` came after a call to `first` — e.g. the order was
+ * looked up before it was refunded. With `sameArg`, the earlier call must have
+ * had the same value for that argument. Holds when `then` was never called.
+ */
+export function calledBefore(first: string, then: string, options: { sameArg?: string } = {}): Predicate {
+  const { sameArg } = options;
+  return onTrajectory((trajectory) => {
+    const calls = toolCalls(trajectory);
+    for (const [i, call] of calls.entries()) {
+      if (call.name !== then) continue;
+      const preceded = calls
+        .slice(0, i)
+        .some((earlier) => earlier.name === first && (!sameArg || isMatch(earlier.args[sameArg], call.args[sameArg])));
+      if (!preceded) {
+        const on = sameArg ? ` with ${sameArg} = ${JSON.stringify(call.args[sameArg])}` : '';
+        return result(false, `${then} was called before any ${first}${on}`);
+      }
+    }
+    return result(true, `every ${then} came after a ${first}${sameArg ? ` for the same ${sameArg}` : ''}`);
+  });
+}
+
+/** At most `max` tool calls over the run, or calls to `tool` if given. */
+export function maxToolCalls(max: number, tool?: string): Predicate {
+  return onTrajectory((trajectory) => {
+    const n = toolCalls(trajectory).filter((call) => !tool || call.name === tool).length;
+    const what = tool ? `${tool} calls` : 'tool calls';
+    return result(n <= max, `${n} ${what}, expected at most ${max}`);
+  });
+}
+
+/**
+ * Before every call to `tool`, the agent asked the user something matching
+ * `pattern` and the user answered — e.g. it read the new address back before
+ * updating it. Holds when `tool` was never called.
+ */
+export function confirmedBefore(tool: string, pattern: RegExp = /./): Predicate {
+  return onTrajectory((trajectory) => {
+    let asked = false;
+    let confirmed = false;
+    for (const step of trajectory) {
+      if (step.type === 'agent' && pattern.test(step.content)) {
+        asked = true;
+      } else if (step.type === 'user' && asked) {
+        confirmed = true;
+        asked = false;
+      } else if (step.type === 'tool' && step.name === tool) {
+        if (!confirmed) {
+          return result(false, `${tool} was called without first asking the user to confirm (${pattern})`);
+        }
+        // Each call needs its own confirmation
+        confirmed = false;
+      }
+    }
+    return result(true, `every ${tool} call was confirmed by the user first`);
+  });
+}
+
+// =============================================================================
+// Combinators
+// =============================================================================
+
+/** Every predicate holds. Reports the first that didn't. */
+export function all(...predicates: Predicate[]): Predicate {
+  return (world, trace, scenario, run) => {
+    for (const predicate of predicates) {
+      const check = predicate(world, trace, scenario, run);
+      if (!check.passed) return check;
+    }
+    return result(true, 'all checks held');
+  };
+}
+
+/** At least one predicate holds. Reports every failure when none did. */
+export function any(...predicates: Predicate[]): Predicate {
+  return (world, trace, scenario, run) => {
+    const checks = predicates.map((predicate) => predicate(world, trace, scenario, run));
+    const passed = checks.find((check) => check.passed);
+    return passed ?? result(false, `none held: ${checks.map((check) => check.reason).join('; ')}`);
+  };
+}
+
+export function not(predicate: Predicate): Predicate {
+  return (world, trace, scenario, run) => {
+    const check = predicate(world, trace, scenario, run);
+    return result(!check.passed, check.passed ? `expected not: ${check.reason}` : check.reason);
+  };
+}
+
+/** Lift a plain boolean check into a predicate, with the reason to give when it passes and when it fails. */
+export function check(
+  reasons: { passed: string; failed: string },
+  test: (world: WorldStateAccessor, trace: Trace, scenario: Scenario) => boolean
+): Predicate {
+  return (world, trace, scenario) =>
+    test(world, trace, scenario) ? result(true, reasons.passed) : result(false, reasons.failed);
+}
@@ -0,0 +1,232 @@
+/**
+ * Redaction
+ *
+ * Sensitive fields are declared in the Zod schemas themselves:
+ *
+ *   number: sensitive(z.string().describe('Credit card number'), 'pan')
+ *
+ * From that declaration:
+ * - `protectInputs()` swaps sensitive tool inputs for vault tokens before the
+ *   call reaches the Multiverse-wrapped tool, so traces, simulation requests
+ *   and the dashboard only ever see tokens. Real implementations call
+ *   `reveal()` to get the raw values back for the API request. Each run has
+ *   its own vault, and `clearVault()` drops it once the run is over. A value
+ *   keeps its token for the whole run, so the simulator can match an email
+ *   given to one tool against the same email given to another.
+ * - `redact()` masks sensitive fields before effects store them as entities.
+ * - `redactText()` masks anything card-, email- or phone-shaped in free text
+ *   such as log lines.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { layer } from './layers.js';
+
+export type SensitiveKind = 'pan' | 'cvv' | 'expiry' | 'phone' | 'email';
+
+const registry = new WeakMap<z.ZodTypeAny, SensitiveKind>();
+
+/** Mark a schema as holding sensitive data. Returns the same schema. */
+export function sensitive<T extends z.ZodTypeAny>(schema: T, kind: SensitiveKind): T {
+  registry.set(schema, kind);
+  return schema;
+}
+
+// =============================================================================
+// Masking
+// =============================================================================
+
+export function mask(kind: SensitiveKind, value: string): string {
+  switch (kind) {
+    case 'pan':
+      return `•••• ${value.replace(/\D/g, '').slice(-4)}`;
+    case 'cvv':
+      return '•••';
+    case 'expiry':
+      return '••/••';
+    case 'phone':
+      return `•••••${value.replace(/\D/g, '').slice(-2)}`;
+    case 'email': {
+      const [user, domain] = value.split('@');
+      return domain ? `${user.charAt(0)}•••@${domain}` : '•••';
+    }
+  }
+}
+
+// =============================================================================
+// Vault — tokens stand in for raw values between the agent and the real API
+// =============================================================================
+
+const TOKEN_PATTERN = /^tok_(pan|cvv|expiry|phone|email)_[0-9a-f]{12}$/;
+
+interface VaultEntry {
+  kind: SensitiveKind;
+  value: string;
+}
+
+interface Vault {
+  entries: Map<string, VaultEntry>;
+  /** Token by kind and raw value, so a value gets the same token every time */
+  tokens: Map<string, string>;
+}
+
+// One vault per run
+const vaults = new Map<string, Vault>();
+
+/** True for the tokens `protectInputs()` hands the wrapped tool in place of raw values. */
+export function isVaultToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+function tokenFor(runId: string, kind: SensitiveKind, value: string): string {
+  if (isVaultToken(value)) return value;
+
+  const vault = vaults.get(runId) ?? { entries: new Map<string, VaultEntry>(), tokens: new Map<string, string>() };
+  vaults.set(runId, vault);
+  const existing = vault.tokens.get(`${kind}:${value}`);
+  if (existing) return existing;
+
+  const token = `tok_${kind}_${randomBytes(6).toString('hex')}`;
+  vault.entries.set(token, { kind, value });
+  vault.tokens.set(`${kind}:${value}`, token);
+  return token;
+}
+
+// Tokens are random, so one can only be in one run's vault
+function lookup(token: string): VaultEntry | undefined {
+  for (const vault of vaults.values()) {
+    const entry = vault.entries.get(token);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * The token standing in for `value`: `value` itself if it is a token, else the
+ * token a vault already holds for it. Effects store it next to the mask so the
+ * simulator can compare later inputs, which arrive as tokens, against it.
+ */
+export function tokenOf(kind: SensitiveKind, value: string): string | undefined {
+  if (isVaultToken(value)) return value;
+  for (const vault of vaults.values()) {
+    const token = vault.tokens.get(`${kind}:${value}`);
+    if (token) return token;
+  }
+  return undefined;
+}
+
+/** Forget the raw values behind a run's tokens. Call it when the run is over. */
+export function clearVault(runId: string): void {
+  vaults.delete(runId);
+}
+
+/** Replace every vault token in `value` with the raw value it stands for. */
+export function reveal<T>(value: T): T {
+  if (typeof value === 'string') {
+    return (lookup(value)?.value ?? value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(reveal) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, reveal(v)])) as T;
+  }
+  return value;
+}
+
+// =============================================================================
+// Schema walking
+// =============================================================================
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (registry.has(schema)) return schema;
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+function transform(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  apply: (kind: SensitiveKind, value: string) => string
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  const inner = unwrap(schema);
+  const kind = registry.get(inner);
+  if (kind) {
+    return typeof value === 'string' ? apply(kind, value) : value;
+  }
+  if (inner instanceof z.ZodObject && typeof value === 'object') {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, shape[key] ? transform(shape[key], v, apply) : v])
+    );
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((v) => transform(inner.element, v, apply));
+  }
+  return value;
+}
+
+/** Mask the sensitive fields of `value`, as declared in `schema`. */
+export function redact<T>(schema: z.ZodTypeAny, value: T): T {
+  return transform(schema, value, (kind, raw) => {
+    const stored = lookup(raw);
+    return stored ? mask(stored.kind, stored.value) : mask(kind, raw);
+  }) as T;
+}
+
+/** Swap the sensitive fields of `value` for tokens in the vault of run `runId`. */
+export function tokenize<T>(schema: z.ZodTypeAny, value: T, runId: string): T {
+  return transform(schema, value, (kind, raw) => tokenFor(runId, kind, raw)) as T;
+}
+
+/**
+ * Put a tokenizing layer in front of a (wrapped) tool. The agent calls it with
+ * raw values; the tool underneath only ever receives tokens.
+ */
+export function protectInputs(wrapped: StructuredToolInterface): DynamicStructuredTool {
+  const schema = wrapped.schema as z.ZodTypeAny;
+  return layer(wrapped, async (input, next, config) =>
+    next(tokenize(schema, input, String(config.configurable?.thread_id ?? '')))
+  );
+}
+
+// =============================================================================
+// Free text
+// =============================================================================
+
+const PAN_CANDIDATE = /\b\d(?:[ -]?\d){12,18}\b/g;
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const PHONE = /(?<!\w)(?:\+?\d{1,3}[ .-]?)?\(?\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}\b/g;
+
+/** Luhn checksum — true for digit strings that could be real card numbers. */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
+
+/** Every Luhn-valid card number in `value`, searched recursively. */
+export function findPans(value: unknown): string[] {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  return (text.match(PAN_CANDIDATE) ?? []).map((m) => m.replace(/\D/g, '')).filter(isLuhnValid);
+}
+
+/** Mask card numbers, emails and phone numbers in free text. */
+export function redactText(text: string): string {
+  return text
+    .replace(PAN_CANDIDATE, (m) => (isLuhnValid(m.replace(/\D/g, '')) ? mask('pan', m) : m))
+    .replace(EMAIL, (m) => mask('email', m))
+    .replace(PHONE, (m) => mask('phone', m));
+}
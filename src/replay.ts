@@ -0,0 +1,261 @@
+/**
+ * Replay Harness
+ *
+ * The effects passed to `wrap()` are pure functions of a tool's output and the
+ * world, and they are where most simulation bugs live. The harness replays a
+ * sequence of tool outputs through those effects against an in-memory world,
+ * checks field and relational invariants after each step, and hands back the
+ * final world to assert on — no LLM, no Multiverse server, milliseconds a case.
+ *
+ * Agents declare each tool's effects once with `defineSimulation()`, pass the
+ * result to `wrap()` and export it for replay.
+ */
+
+import type { Effect, Entity, WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import type { z } from 'zod';
+import { checkInvariants, noDuplicateWrites, type RelationalInvariant, type Violation } from './invariants.js';
+
+/** Per-field constraint checked by Multiverse after every call, e.g. `seatsAvailable >= 0`. */
+export interface FieldInvariant {
+  collection: string;
+  field: string;
+  condition: 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+  value: unknown;
+}
+
+/** What `wrap()` needs besides the tool: output schema, effects and field invariants. */
+export interface ToolSimulation<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  output: T;
+  effects?(output: z.infer<T>, world: WorldStateAccessor): Effect[];
+  invariants?: FieldInvariant[];
+}
+
+export function defineSimulation<T extends z.ZodTypeAny>(simulation: ToolSimulation<T>): ToolSimulation<T> {
+  return simulation;
+}
+
+// =============================================================================
+// In-memory world
+// =============================================================================
+
+/** Entity data by id, by collection — the shape of a world snapshot. */
+export type WorldSeed = Record<string, Record<string, Record<string, unknown>>>;
+
+export interface MemoryWorld extends WorldStateAccessor {
+  apply: (effect: Effect) => void;
+  /** Plain copy of every collection, for printing or comparing */
+  snapshot: () => WorldSeed;
+}
+
+export function createWorld(seed: WorldSeed = {}): MemoryWorld {
+  const collections = new Map<string, Map<string, Entity>>();
+  let clock = 0;
+
+  function collection(name: string): Map<string, Entity> {
+    if (!collections.has(name)) collections.set(name, new Map());
+    return collections.get(name)!;
+  }
+
+  function apply(effect: Effect) {
+    const entities = collection(effect.collection);
+    const existing = entities.get(effect.id);
+    const data = (effect.data ?? {}) as Record<string, unknown>;
+    clock++;
+
+    switch (effect.operation) {
+      case 'create':
+        entities.set(effect.id, {
+          id: effect.id,
+          type: effect.collection,
+          data: { ...data },
+          createdAt: existing?.createdAt ?? clock,
+          updatedAt: clock,
+        });
+        break;
+      case 'update':
+        if (!existing) {
+          throw new Error(`update on missing entity ${effect.collection}/${effect.id}`);
+        }
+        entities.set(effect.id, { ...existing, data: { ...existing.data, ...data }, updatedAt: clock });
+        break;
+      case 'delete':
+        entities.delete(effect.id);
+        break;
+    }
+  }
+
+  for (const [name, entities] of Object.entries(seed)) {
+    for (const [id, data] of Object.entries(entities)) {
+      apply({ operation: 'create', collection: name, id, data });
+    }
+  }
+
+  return {
+    getCollection: (name) => new Map(collections.get(name) ?? []),
+    getEntity: (name, id) => collections.get(name)?.get(id),
+    hasEntity: (name, id) => collections.get(name)?.has(id) ?? false,
+    getCollectionNames: () => [...collections.keys()],
+    apply,
+    snapshot: () =>
+      Object.fromEntries(
+        [...collections].map(([name, entities]) => [
+          name,
+          Object.fromEntries([...entities].map(([id, entity]) => [id, structuredClone(entity.data)])),
+        ])
+      ),
+  };
+}
+
+// =============================================================================
+// Invariants
+// =============================================================================
+
+function holds(actual: unknown, condition: FieldInvariant['condition'], expected: unknown): boolean {
+  switch (condition) {
+    case 'gt':
+      return (actual as number) > (expected as number);
+    case 'gte':
+      return (actual as number) >= (expected as number);
+    case 'lt':
+      return (actual as number) < (expected as number);
+    case 'lte':
+      return (actual as number) <= (expected as number);
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+  }
+}
+
+/** Entities that break a field invariant. Entities without the field are skipped. */
+export function checkFieldInvariants(world: WorldStateAccessor, invariants: FieldInvariant[]): Violation[] {
+  return invariants.flatMap(({ collection, field, condition, value }) =>
+    [...world.getCollection(collection).values()]
+      .filter((entity) => entity.data[field] !== undefined && !holds(entity.data[field], condition, value))
+      .map((entity) => ({
+        invariant: `${collection}.${field} ${condition} ${String(value)}`,
+        message: `${collection}/${entity.id} has ${field} = ${JSON.stringify(entity.data[field])}`,
+      }))
+  );
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+export interface ReplayStep {
+  /** Tool name, a key of the agent's simulations */
+  tool: string;
+  /** What the tool returned */
+  output: unknown;
+}
+
+export interface ReplayOptions {
+  /** Entities that exist before the first step */
+  world?: WorldSeed;
+  /** Relational invariants, checked against the final world */
+  invariants?: RelationalInvariant[];
+}
+
+export interface ReplayResult {
+  world: MemoryWorld;
+  /** Every effect applied, in order */
+  effects: Effect[];
+  /** Field invariants broken after any step, then relational ones at the end */
+  violations: Violation[];
+}
+
+export function replay(
+  simulations: Record<string, ToolSimulation>,
+  steps: ReplayStep[],
+  options: ReplayOptions = {}
+): ReplayResult {
+  const world = createWorld(options.world);
+  const applied: Effect[] = [];
+  const violations: Violation[] = [];
+
+  steps.forEach((step, i) => {
+    const simulation = simulations[step.tool];
+    if (!simulation) {
+      throw new Error(`Step ${i + 1}: unknown tool "${step.tool}". Known: ${Object.keys(simulations).join(', ')}`);
+    }
+
+    const parsed = simulation.output.safeParse(step.output);
+    if (!parsed.success) {
+      throw new Error(`Step ${i + 1}: ${step.tool} output does not match its schema: ${parsed.error.message}`);
+    }
+
+    const effects = simulation.effects?.(parsed.data, world) ?? [];
+    effects.forEach(world.apply);
+    applied.push(...effects);
+
+    for (const violation of checkFieldInvariants(world, simulation.invariants ?? [])) {
+      violations.push({ ...violation, message: `after step ${i + 1} (${step.tool}): ${violation.message}` });
+    }
+  });
+
+  violations.push(...checkInvariants(world, options.invariants ?? []));
+  return { world, effects: applied, violations };
+}
+
+// =============================================================================
+// Replay cases
+// =============================================================================
+
+export interface ReplayCase {
+  name: string;
+  /** Entities that exist before the first step */
+  world?: WorldSeed;
+  steps: ReplayStep[];
+  /**
+   * Invariants this case is expected to break, by name (field invariants are
+   * named like `flights.seatsAvailable gte 0`). Any other violation fails it.
+   */
+  violates?: string[];
+  /** Return one message per failed expectation; an empty list means the case passed */
+  expect?: (world: WorldStateAccessor) => string[];
+}
+
+export interface ReplaySuite {
+  /** Shown in results and matched by `--filter`, e.g. `flight-booking` */
+  id: string;
+  simulations: Record<string, ToolSimulation>;
+  invariants?: RelationalInvariant[];
+  cases: ReplayCase[];
+}
+
+export interface ReplayOutcome {
+  suite: string;
+  case: string;
+  /** Why the case failed; empty when it passed */
+  failures: string[];
+}
+
+export function defineReplays(suite: ReplaySuite): ReplaySuite {
+  return suite;
+}
+
+export function runReplayCase(suite: ReplaySuite, replayCase: ReplayCase): ReplayOutcome {
+  const outcome = { suite: suite.id, case: replayCase.name };
+  let result: ReplayResult;
+  try {
+    // Duplicate writes are checked on every run, so replays check them too
+    result = replay(suite.simulations, replayCase.steps, {
+      world: replayCase.world,
+      invariants: [noDuplicateWrites, ...(suite.invariants ?? [])],
+    });
+  } catch (err) {
+    return { ...outcome, failures: [err instanceof Error ? err.message : String(err)] };
+  }
+
+  const expected = new Set(replayCase.violates ?? []);
+  const broken = new Set(result.violations.map((v) => v.invariant));
+  const failures = [
+    ...result.violations
+      .filter((v) => !expected.has(v.invariant))
+      .map((v) => `unexpected violation of ${v.invariant}: ${v.message}`),
+    ...[...expected].filter((name) => !broken.has(name)).map((name) => `expected ${name} to be violated`),
+    ...(replayCase.expect?.(result.world) ?? []),
+  ];
+  return { ...outcome, failures };
+}
@@ -0,0 +1,109 @@
+/**
+ * Suite Runner CLI
+ *
+ * Runs the suites declared in multiverse.config.ts and prints one combined
+ * summary. Every selected suite runs, even after a failure; the exit code is
+ * non-zero if any of them missed its threshold.
+ *
+ *   pnpm multiverse                              # all suites
+ *   pnpm multiverse --suite flight-booking       # one suite by id
+ *   pnpm multiverse --filter roundtrip           # suites whose id/name/task match
+ *   pnpm multiverse --pass-rate 80 --quality 60  # override thresholds
+ *   pnpm multiverse --now 2025-03-14T09:00:00Z --time-zone America/New_York
+ *                                                # pin the clock (reproduce a run)
+ *   pnpm multiverse --list                       # show suites and exit
+ */
+
+import { dirname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { multiverse } from '@virtualkitchenco/multiverse-sdk';
+import { printSuiteResults, printSummary } from './report.js';
+import { resolveSuite, runSuite, type Overrides, type SuiteOutcome } from './run.js';
+import type { RunnerConfig, SuiteConfig } from './types.js';
+
+const { values } = parseArgs({
+  options: {
+    config: { type: 'string', default: 'multiverse.config.ts' },
+    suite: { type: 'string', multiple: true },
+    filter: { type: 'string' },
+    'pass-rate': { type: 'string' },
+    quality: { type: 'string' },
+    now: { type: 'string' },
+    'time-zone': { type: 'string' },
+    list: { type: 'boolean', default: false },
+  },
+});
+
+function parseThreshold(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0 || n > 100) {
+    throw new Error(`--${flag} must be a number between 0 and 100, got "${value}"`);
+  }
+  return n;
+}
+
+function selectSuites(suites: SuiteConfig[]): SuiteConfig[] {
+  const ids = new Set(suites.map((s) => s.id));
+  const unknown = (values.suite ?? []).filter((id) => !ids.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown suite(s): ${unknown.join(', ')}. Available: ${[...ids].join(', ')}`);
+  }
+
+  const filter = values.filter?.toLowerCase();
+  return suites.filter(
+    (s) =>
+      (!values.suite || values.suite.includes(s.id)) &&
+      (!filter || [s.id, s.name, s.task].some((field) => field.toLowerCase().includes(filter)))
+  );
+}
+
+async function main() {
+  const configPath = resolve(values.config!);
+  const rootDir = dirname(configPath);
+  const config = ((await import(pathToFileURL(configPath).href)) as { default: RunnerConfig }).default;
+
+  const passRate = parseThreshold('pass-rate', values['pass-rate']);
+  const quality = parseThreshold('quality', values.quality);
+  const overrides: Overrides = {
+    thresholds: {
+      ...(passRate !== undefined && { passRate }),
+      ...(quality !== undefined && { quality }),
+    },
+    ...(values.now && { clock: { now: values.now, timeZone: values['time-zone'] } }),
+  };
+
+  const suites = selectSuites(config.suites).map((s) => resolveSuite(s, config.defaults, overrides));
+
+  if (values.list) {
+    suites.forEach((s) => console.log(`${s.id.padEnd(32)} ${s.task}`));
+    return;
+  }
+  if (suites.length === 0) {
+    throw new Error('No suites matched');
+  }
+
+  multiverse.configure(config.multiverse);
+
+  const outcomes: SuiteOutcome[] = [];
+  for (const suite of suites) {
+    console.log(`\n  ${suite.id} — ${suite.task}\n`);
+    const outcome = await runSuite(suite, rootDir);
+    printSuiteResults(outcome);
+    outcomes.push(outcome);
+  }
+
+  printSummary(outcomes);
+
+  if (outcomes.some((o) => !o.passed)) {
+    process.exit(1);
+  }
+
+  console.log('\nTests passed!');
+}
+
+main().catch((err) => {
+  console.error('Test failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+/**
+ * Replay CLI
+ *
+ * Runs the replay cases declared in multiverse.config.ts: recorded tool
+ * outputs pushed through each agent's effects and invariants, no LLM or
+ * Multiverse server needed. Exits non-zero if any case fails.
+ *
+ *   pnpm replay                          # every case
+ *   pnpm replay --filter flight-booking  # cases whose suite id or name match
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { runReplayCase, type ReplayOutcome } from '../replay.js';
+import type { RunnerConfig } from './types.js';
+
+const { values } = parseArgs({
+  options: {
+    config: { type: 'string', default: 'multiverse.config.ts' },
+    filter: { type: 'string' },
+  },
+});
+
+async function main() {
+  const configPath = resolve(values.config!);
+  const config = ((await import(pathToFileURL(configPath).href)) as { default: RunnerConfig }).default;
+  const filter = values.filter?.toLowerCase();
+
+  const outcomes: ReplayOutcome[] = [];
+  for (const suite of config.replays ?? []) {
+    const cases = suite.cases.filter(
+      (c) => !filter || [suite.id, c.name].some((field) => field.toLowerCase().includes(filter))
+    );
+    if (cases.length === 0) continue;
+
+    console.log(`\n  ${suite.id}`);
+    for (const replayCase of cases) {
+      const outcome = runReplayCase(suite, replayCase);
+      console.log(`    ${outcome.failures.length === 0 ? '✓' : '✗'} ${outcome.case}`);
+      outcome.failures.forEach((failure) => console.log(`        ${failure}`));
+      outcomes.push(outcome);
+    }
+  }
+
+  if (outcomes.length === 0) {
+    throw new Error('No replay cases matched');
+  }
+
+  const failed = outcomes.filter((o) => o.failures.length > 0).length;
+  console.log(`\n${outcomes.length - failed}/${outcomes.length} replay cases passed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('Replay failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * Suite Reporting
+ *
+ * Console output for single suites and the combined summary.
+ */
+
+import { describeFault } from '../faults.js';
+import { describeInjection } from '../injection.js';
+import { redactText } from '../redaction.js';
+import { mergeInputStats, type InputStats } from '../validation.js';
+import type { SuiteOutcome } from './run.js';
+
+/** "3/41 calls (7.3%) — bookFlight 2, searchFlights 1" */
+function describeInputs({ calls, invalid, byTool }: InputStats): string {
+  const rate = calls > 0 ? ((invalid / calls) * 100).toFixed(1) : '0.0';
+  const tools = Object.entries(byTool)
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, count]) => `${name} ${count}`);
+  return `${invalid}/${calls} calls (${rate}%)${tools.length > 0 ? ` — ${tools.join(', ')}` : ''}`;
+}
+
+export function printSuiteResults({ suite, results, violations, failedChecks, inputs, error }: SuiteOutcome): void {
+  console.log('\n========================================');
+  console.log(`RESULTS — ${suite.id}`);
+  console.log('========================================');
+
+  if (error || !results) {
+    console.error(`Suite errored: ${error?.message ?? 'no results'}`);
+    return;
+  }
+
+  console.log(`Pass Rate: ${results.passRate}%`);
+  console.log(`Total Runs: ${results.runs.length}`);
+  console.log(`Duration: ${(results.duration / 1000).toFixed(1)}s`);
+  console.log(`Clock: ${suite.clock.now} (${suite.clock.timeZone ?? 'UTC'})`);
+  if (suite.faults?.length) {
+    console.log(`Faults: ${suite.faults.map(describeFault).join(', ')}`);
+  }
+  if (suite.injections?.length) {
+    console.log(`Injections: ${suite.injections.map(describeInjection).join(', ')}`);
+  }
+  console.log(`Invalid tool input: ${describeInputs(inputs)}`);
+
+  if (violations.length > 0) {
+    console.log(`\nInvariant violations (${violations.length} runs):`);
+    for (const run of violations) {
+      for (const v of run.violations) {
+        console.log(redactText(`  [${run.scenario}] ${v.invariant}: ${v.message}`));
+      }
+    }
+  }
+
+  if (failedChecks.length > 0) {
+    console.log(`\nFailed checks (${failedChecks.length} runs):`);
+    for (const failed of failedChecks) {
+      console.log(redactText(`  [${failed.scenario}] ${failed.reason}`));
+    }
+  }
+
+  if (results.url) {
+    console.log(`\nDashboard: ${results.url}`);
+  }
+
+  if (results.passRate < suite.thresholds.passRate) {
+    console.error(`\nPass rate below threshold (${suite.thresholds.passRate}%)`);
+    console.error(
+      `Reproduce with: pnpm multiverse --suite ${suite.id} --now ${suite.clock.now} --time-zone ${suite.clock.timeZone ?? 'UTC'}`
+    );
+  }
+}
+
+export function printSummary(outcomes: SuiteOutcome[]): void {
+  const rows = outcomes.map(({ suite, results, inputs, error, passed }) => ({
+    suite: suite.id,
+    status: error ? 'ERROR' : passed ? 'PASS' : 'FAIL',
+    passRate: results ? `${results.passRate}%` : '-',
+    threshold: `${suite.thresholds.passRate}%`,
+    runs: results ? String(results.runs.length) : '-',
+    invalidInput: `${inputs.invalid}/${inputs.calls}`,
+  }));
+
+  const headers = {
+    suite: 'Suite',
+    status: 'Status',
+    passRate: 'Pass Rate',
+    threshold: 'Threshold',
+    runs: 'Runs',
+    invalidInput: 'Invalid Input',
+  };
+  const columns = Object.keys(headers) as Array<keyof typeof headers>;
+  const widths = columns.map((col) => Math.max(headers[col].length, ...rows.map((row) => row[col].length)));
+  const line = (row: Record<keyof typeof headers, string>) =>
+    columns.map((col, i) => row[col].padEnd(widths[i])).join('  ');
+
+  console.log('\n========================================');
+  console.log('SUMMARY');
+  console.log('========================================');
+  console.log(line(headers));
+  rows.forEach((row) => console.log(line(row)));
+
+  // Invalid tool input per agent, across all of its suites
+  const byAgent = new Map<string, InputStats[]>();
+  for (const { suite, inputs } of outcomes) {
+    byAgent.set(suite.agent, [...(byAgent.get(suite.agent) ?? []), inputs]);
+  }
+  console.log('\nInvalid tool input by agent:');
+  for (const [agent, suites] of byAgent) {
+    console.log(`  ${agent}: ${describeInputs(mergeInputStats(suites))}`);
+  }
+
+  const failed = outcomes.filter((o) => !o.passed).length;
+  console.log(`\n${outcomes.length - failed}/${outcomes.length} suites passed`);
+}
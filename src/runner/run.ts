@@ -0,0 +1,196 @@
+/**
+ * Suite Execution
+ *
+ * Loads a suite's agent module and runs it through Multiverse.
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { multiverse, type TestResults } from '@virtualkitchenco/multiverse-sdk';
+import { fixedClock, freeze, type ClockConfig } from '../clock.js';
+import type { AgentResponse, ConversationContext } from '../conversation.js';
+import { clearCallCounts } from '../faults.js';
+import { clearIdempotentResults } from '../idempotency.js';
+import { checkInvariants, noDuplicateWrites, type RelationalInvariant, type Violation } from '../invariants.js';
+import { clearVault, redactText } from '../redaction.js';
+import { clearTrajectory } from '../trajectory.js';
+import { clearInputStats, inputStats, type InputStats } from '../validation.js';
+import type { SuiteConfig, SuiteOptions, Thresholds } from './types.js';
+
+export const DEFAULT_THRESHOLDS: Required<Thresholds> = { passRate: 70, quality: 70 };
+
+export type ResolvedSuite = SuiteConfig & {
+  scenarioCount: number;
+  trialsPerScenario: number;
+  simulateUser: boolean;
+  thresholds: Required<Thresholds>;
+  clock: ClockConfig;
+};
+
+export interface Overrides {
+  thresholds?: Thresholds;
+  clock?: ClockConfig;
+}
+
+export interface RunViolations {
+  scenario: string;
+  violations: Violation[];
+}
+
+export interface FailedCheck {
+  scenario: string;
+  /** Why the suite's success predicate failed */
+  reason: string;
+}
+
+export interface SuiteOutcome {
+  suite: ResolvedSuite;
+  results?: TestResults;
+  /** Runs that broke one of the agent's relational invariants, or wrote something twice */
+  violations: RunViolations[];
+  /** Runs whose success predicate failed, with its reason */
+  failedChecks: FailedCheck[];
+  /** Tool calls the agent made across all runs, and how many were rejected as invalid input */
+  inputs: InputStats;
+  error?: Error;
+  passed: boolean;
+}
+
+interface AgentModule {
+  runAgent: (context: ConversationContext) => Promise<AgentResponse | string>;
+  /** Cross-collection business rules checked after every run */
+  invariants?: RelationalInvariant[];
+}
+
+/**
+ * Merge runner defaults, the suite's own options and command-line overrides,
+ * in that order.
+ */
+export function resolveSuite(
+  suite: SuiteConfig,
+  defaults: SuiteOptions = {},
+  overrides: Overrides = {}
+): ResolvedSuite {
+  const clock = overrides.clock ?? suite.clock ?? defaults.clock ?? freeze();
+  // Fail on a bad time or zone before any run starts
+  fixedClock(clock);
+
+  return {
+    ...defaults,
+    ...suite,
+    scenarioCount: suite.scenarioCount ?? defaults.scenarioCount ?? 5,
+    trialsPerScenario: suite.trialsPerScenario ?? defaults.trialsPerScenario ?? 4,
+    simulateUser: suite.simulateUser ?? defaults.simulateUser ?? true,
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      ...defaults.thresholds,
+      ...suite.thresholds,
+      ...overrides.thresholds,
+    },
+    clock,
+  };
+}
+
+async function loadAgent(suite: ResolvedSuite, rootDir: string): Promise<AgentModule> {
+  const mod = (await import(pathToFileURL(resolve(rootDir, suite.agent)).href)) as Partial<AgentModule>;
+  if (typeof mod.runAgent !== 'function') {
+    throw new Error(`${suite.agent} does not export runAgent`);
+  }
+  return { runAgent: mod.runAgent, invariants: mod.invariants ?? [] };
+}
+
+/**
+ * Run one suite. Failures are captured in the outcome rather than thrown so
+ * later suites still run.
+ */
+export async function runSuite(suite: ResolvedSuite, rootDir: string): Promise<SuiteOutcome> {
+  const violations: RunViolations[] = [];
+  const failedChecks: FailedCheck[] = [];
+  const startedRuns = new Set<string>();
+
+  try {
+    const { runAgent, invariants = [] } = await loadAgent(suite, rootDir);
+
+    const test = multiverse.describe({
+      name: suite.name,
+      task: suite.task,
+      agent: async (context) => {
+        // Seed the suite's conversation fixture on the first turn of each run
+        const firstTurn = !startedRuns.has(context.runId);
+        startedRuns.add(context.runId);
+
+        const response = await runAgent({
+          ...context,
+          clock: suite.clock,
+          faults: suite.faults,
+          injections: suite.injections,
+          ...(firstTurn && { history: suite.conversation }),
+        });
+        const reply = typeof response === 'string' ? response : response.reply;
+
+        // Agent replies are masked before they become part of the recorded transcript
+        return redactText(reply);
+      },
+      ...(suite.variables && { variables: suite.variables }),
+    });
+
+    const results = await test.run({
+      success: (world, trace, scenario) => {
+        const name = scenario?.name ?? trace?.scenario ?? 'unknown';
+        const found = checkInvariants(world, [noDuplicateWrites, ...invariants]);
+        if (found.length > 0) {
+          violations.push({ scenario: name, violations: found });
+          return false;
+        }
+
+        // Multiverse passes the run's trace, whose id is the runId the agent
+        // was called with. Only a run this suite started counts; otherwise the
+        // trajectory predicates report the run as unknown
+        const run = trace && startedRuns.has(trace.id) ? { runId: trace.id } : undefined;
+        const check = suite.success(world, trace, scenario, run);
+        if (typeof check === 'boolean') return check;
+        if (!check.passed) {
+          failedChecks.push({ scenario: name, reason: check.reason });
+        }
+        return check.passed;
+      },
+      scenarioCount: suite.scenarioCount,
+      trialsPerScenario: suite.trialsPerScenario,
+      simulateUser: suite.simulateUser,
+      qualityThreshold: suite.thresholds.quality,
+      ci: suite.ci,
+
+      onProgress: (p) => {
+        console.log(`[${suite.id}] Progress: ${p.completed}/${p.total} runs`);
+      },
+    });
+
+    return {
+      suite,
+      results,
+      violations,
+      failedChecks,
+      inputs: inputStats(startedRuns),
+      passed: results.passRate >= suite.thresholds.passRate,
+    };
+  } catch (err) {
+    return {
+      suite,
+      violations,
+      failedChecks,
+      inputs: inputStats(startedRuns),
+      error: err instanceof Error ? err : new Error(String(err)),
+      passed: false,
+    };
+  } finally {
+    // Every run's effects have been applied and its input stats read, so
+    // nothing needs the runs' per-run state any more
+    startedRuns.forEach((runId) => {
+      clearVault(runId);
+      clearCallCounts(runId);
+      clearIdempotentResults(runId);
+      clearInputStats(runId);
+      clearTrajectory(runId);
+    });
+  }
+}
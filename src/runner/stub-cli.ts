@@ -0,0 +1,72 @@
+/**
+ * Stub CLI
+ *
+ * Runs the stub cases declared in multiverse.config.ts: scripted agent runs
+ * through the full tool stack against an in-process mock API, no LLM or
+ * Multiverse server needed. Exits non-zero if any case fails.
+ *
+ *   pnpm stub                          # every case
+ *   pnpm stub --filter flight-booking  # cases whose suite id or name match
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { fixedClock, systemClock } from '../clock.js';
+import { startMockApi } from '../mock-api/server.js';
+import { runStubCase, type StubOutcome } from '../stub-run.js';
+import type { RunnerConfig } from './types.js';
+
+const { values } = parseArgs({
+  options: {
+    config: { type: 'string', default: 'multiverse.config.ts' },
+    filter: { type: 'string' },
+  },
+});
+
+async function main() {
+  const configPath = resolve(values.config!);
+  const config = ((await import(pathToFileURL(configPath).href)) as { default: RunnerConfig }).default;
+  const filter = values.filter?.toLowerCase();
+
+  // The real tool implementations read API_BASE_URL on every request
+  const api = await startMockApi({ port: 0 });
+  process.env.API_BASE_URL = api.url;
+
+  const outcomes: StubOutcome[] = [];
+  try {
+    for (const suite of config.stubs ?? []) {
+      const cases = suite.cases.filter(
+        (c) => !filter || [suite.id, c.name].some((field) => field.toLowerCase().includes(filter))
+      );
+      if (cases.length === 0) continue;
+
+      console.log(`\n  ${suite.id}`);
+      for (const stubCase of cases) {
+        // On the case's clock, so the API dates things the way the run does
+        api.store.reset(api.store.seed, stubCase.clock ? fixedClock(stubCase.clock) : systemClock);
+        const outcome = await runStubCase(suite, stubCase, api);
+        console.log(`    ${outcome.failures.length === 0 ? '✓' : '✗'} ${outcome.case}`);
+        outcome.failures.forEach((failure) => console.log(`        ${failure}`));
+        outcomes.push(outcome);
+      }
+    }
+  } finally {
+    await api.close();
+  }
+
+  if (outcomes.length === 0) {
+    throw new Error('No stub cases matched');
+  }
+
+  const failed = outcomes.filter((o) => o.failures.length > 0).length;
+  console.log(`\n${outcomes.length - failed}/${outcomes.length} stub cases passed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('Stub run failed:', err);
+  process.exit(1);
+});
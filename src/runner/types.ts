@@ -0,0 +1,99 @@
+/**
+ * Suite Runner Types
+ *
+ * Shape of `multiverse.config.ts` and of the suites each example declares.
+ */
+
+import type { InferableSchema, Scenario, Trace, WorldStateAccessor } from '@virtualkitchenco/multiverse-sdk';
+import type { ClockConfig } from '../clock.js';
+import type { ConversationTurn } from '../conversation.js';
+import type { Fault } from '../faults.js';
+import type { Injection } from '../injection.js';
+import type { CheckResult, RunInfo } from '../predicates.js';
+import type { ReplaySuite } from '../replay.js';
+import type { StubSuite } from '../stub-run.js';
+
+export interface Thresholds {
+  /** Minimum pass rate (0-100) for the suite to count as passed */
+  passRate?: number;
+  /** Quality threshold (0-100) handed to Multiverse for each run */
+  quality?: number;
+}
+
+export interface SuiteOptions {
+  scenarioCount?: number;
+  trialsPerScenario?: number;
+  simulateUser?: boolean;
+  thresholds?: Thresholds;
+  /**
+   * Pin "now" for every run. Without one, the runner freezes the clock when
+   * it starts; either way the time used is printed with the results.
+   */
+  clock?: ClockConfig;
+  ci?: {
+    postToPR?: boolean;
+    printReport?: boolean;
+  };
+}
+
+export interface SuiteConfig extends SuiteOptions {
+  /** Unique id used by `--suite`, e.g. `flight-booking/roundtrip` */
+  id: string;
+  /** Agent name for grouping in the dashboard */
+  name: string;
+  /** Task description — what the agent is being tested on */
+  task: string;
+  /** Module exporting `runAgent`, relative to the config file */
+  agent: string;
+  /**
+   * Turns that already happened before the simulated user's first message.
+   * Seeded into every run so scenarios can start mid-conversation.
+   */
+  conversation?: ConversationTurn[];
+  /**
+   * Zod schema for per-scenario variables (e.g. the passengers the simulated
+   * user asks for). Generated scenarios fill it in and `success` reads it
+   * from `scenario.variables`.
+   */
+  variables?: InferableSchema;
+  /**
+   * Tool failures injected into every run, e.g. `faults.soldOut('bookFlight')`
+   * (see src/faults.ts). Use with a `success` that checks how the agent recovered.
+   */
+  faults?: Fault[];
+  /**
+   * Instructions seeded into tool outputs in every run, e.g.
+   * `poison('searchRestaurants', 'restaurants[].name', payloads.book(...))`
+   * (see src/injection.ts). Use with a `success` that fails on writes the user
+   * didn't ask for.
+   */
+  injections?: Injection[];
+  /**
+   * Checks the final world state of each run. Predicates from
+   * src/predicates.ts also say why a run failed.
+   */
+  success: (world: WorldStateAccessor, trace: Trace, scenario: Scenario, run?: RunInfo) => boolean | CheckResult;
+}
+
+export interface RunnerConfig {
+  multiverse: {
+    llm?: { provider: 'anthropic' | 'openai' | 'google'; model?: string };
+    baseUrl: string;
+    apiKey?: string;
+  };
+  /** Applied to every suite; suite options win */
+  defaults?: SuiteOptions;
+  suites: SuiteConfig[];
+  /** Effect replays run by `pnpm replay` — no LLM or Multiverse server needed */
+  replays?: ReplaySuite[];
+  /** Scripted runs against the mock API, run by `pnpm stub` — no LLM or Multiverse server needed */
+  stubs?: StubSuite[];
+}
+
+export function defineConfig(config: RunnerConfig): RunnerConfig {
+  return config;
+}
+
+export function defineSuites(suites: SuiteConfig[]): SuiteConfig[] {
+  return suites;
+}
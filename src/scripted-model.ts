@@ -0,0 +1,150 @@
+/**
+ * Scripted Chat Model
+ *
+ * A fake chat model for offline, deterministic agent runs. It replays a fixed
+ * script of steps — "call searchFlights, then bookFlight with the first
+ * flight, then reply" — so tool wrapping, effects and invariants can be
+ * exercised without an API key or network access.
+ *
+ * The step to play is the number of messages the script already produced in
+ * the thread, so every thread replays the script from the start, concurrent
+ * runs don't interfere, and seeded history doesn't skip steps. Once the script
+ * runs out, the model answers with `STUB_REPLY`. A step built from earlier
+ * results is never built from a failed call: the model replies with the error
+ * instead.
+ *
+ * Steps read the run's clock, so dates in a script stay valid whichever day
+ * the run is pinned to: `args: (results, run) => ({ date: run.date(11) })`.
+ */
+
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { BaseChatModel, type BaseChatModelCallOptions } from '@langchain/core/language_models/chat_models';
+import { AIMessage, type AIMessageChunk, type BaseMessage, type ToolMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import { clockFromConfig, localDate, type Clock, type ClockConfig } from './clock.js';
+import { messageText } from './conversation.js';
+import { isToolError } from './http.js';
+
+export const STUB_REPLY = 'This is an offline stub model - no request was sent to a model provider.';
+
+/** Parsed tool results in the thread so far, oldest first. */
+export type ToolResults = unknown[];
+
+/** The run a step plays in. */
+export interface ScriptRun {
+  clock: Clock;
+  /** The date `days` after today on the run's clock, as YYYY-MM-DD */
+  date: (days: number) => string;
+}
+
+export interface ScriptedToolCall {
+  name: string;
+  /** Fixed arguments, or built from earlier results (e.g. a flight ID from the search) */
+  args: Record<string, unknown> | ((results: ToolResults, run: ScriptRun) => Record<string, unknown>);
+}
+
+export type ScriptStep =
+  | { toolCalls: ScriptedToolCall[] }
+  | { reply: string | ((results: ToolResults, run: ScriptRun) => string) };
+
+export type ChatScript = ScriptStep[];
+
+/** Tool message contents, JSON-parsed where possible. */
+function toolResults(messages: BaseMessage[]): ToolResults {
+  return messages
+    .filter((message) => message.getType() === 'tool')
+    .map((message) => {
+      const text = messageText(message as ToolMessage);
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    });
+}
+
+// Marks the messages this model produced, to tell them from seeded history
+const SCRIPTED = { scripted: true };
+
+function isScripted(message: BaseMessage): boolean {
+  return message.getType() === 'ai' && message.response_metadata?.scripted === true;
+}
+
+/** Results of the tool calls since the last assistant message. */
+function latestResults(messages: BaseMessage[]): ToolResults {
+  const last = messages.map((message) => message.getType()).lastIndexOf('ai');
+  return toolResults(messages.slice(last + 1));
+}
+
+function failure(results: ToolResults): string | undefined {
+  const failed = results.find(isToolError);
+  if (failed === undefined || typeof failed === 'string') return failed;
+  return failed.error.message ?? JSON.stringify(failed.error);
+}
+
+function usesResults(step: ScriptStep): boolean {
+  return 'toolCalls' in step
+    ? step.toolCalls.some((call) => typeof call.args === 'function')
+    : typeof step.reply === 'function';
+}
+
+interface ScriptedCallOptions extends BaseChatModelCallOptions {
+  clock?: ClockConfig;
+}
+
+export class ScriptedChatModel extends BaseChatModel<ScriptedCallOptions> {
+  private readonly script: ChatScript;
+
+  constructor(script: ChatScript = []) {
+    super({});
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  // Tools are accepted so createReactAgent can bind them; the script decides what gets called
+  bindTools() {
+    return this;
+  }
+
+  // `_generate` only sees call options, not the LangGraph `configurable` the run's clock travels in
+  override invoke(input: BaseLanguageModelInput, options?: ScriptedCallOptions): Promise<AIMessageChunk> {
+    return super.invoke(input, { ...options, clock: options?.configurable?.clock });
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    const index = messages.filter(isScripted).length;
+    const step = this.script[index];
+    const results = toolResults(messages);
+    const failed = step && usesResults(step) ? failure(latestResults(messages)) : undefined;
+    const clock = clockFromConfig({ configurable: { clock: options.clock } });
+    const run: ScriptRun = { clock, date: (days) => localDate(clock, days) };
+
+    let message: AIMessage;
+    if (!step) {
+      message = new AIMessage({ content: STUB_REPLY, response_metadata: SCRIPTED });
+    } else if (failed) {
+      message = new AIMessage({ content: `Sorry, that didn't work: ${failed}`, response_metadata: SCRIPTED });
+    } else if ('toolCalls' in step) {
+      message = new AIMessage({
+        content: '',
+        tool_calls: step.toolCalls.map((call, i) => ({
+          id: `call_${index}_${i}`,
+          name: call.name,
+          args: typeof call.args === 'function' ? call.args(results, run) : call.args,
+          type: 'tool_call' as const,
+        })),
+        response_metadata: SCRIPTED,
+      });
+    } else {
+      message = new AIMessage({
+        content: typeof step.reply === 'function' ? step.reply(results, run) : step.reply,
+        response_metadata: SCRIPTED,
+      });
+    }
+
+    return { generations: [{ message, text: messageText(message) }] };
+  }
+}
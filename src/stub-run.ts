@@ -0,0 +1,106 @@
+/**
+ * Stub Runs
+ *
+ * Scripted agent runs that check the tool layers end to end. The offline stub
+ * model replays a script through an agent's full tool stack — validation,
+ * prompt injection, faults, idempotency, tokenization — and the real tool
+ * implementations call the local mock API:
+ *
+ *   {
+ *     name: 'a retry with the same key books once',
+ *     script: [{ toolCalls: [book] }, { toolCalls: [book] }],
+ *     expect: ({ response, state }) => ...,
+ *   }
+ *
+ * `expect` sees the agent's response, exactly as the model would have, and
+ * the mock API's state afterwards. No LLM or Multiverse server needed;
+ * `pnpm stub` runs every case.
+ */
+
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createAgent } from './agent.js';
+import type { ClockConfig } from './clock.js';
+import type { AgentResponse, ConversationTurn } from './conversation.js';
+import { clearCallCounts, type Fault } from './faults.js';
+import { clearIdempotentResults } from './idempotency.js';
+import type { Injection } from './injection.js';
+import type { MockApi } from './mock-api/server.js';
+import { clearVault } from './redaction.js';
+import type { ChatScript } from './scripted-model.js';
+import { clearTrajectory } from './trajectory.js';
+import { clearInputStats } from './validation.js';
+
+export interface StubCase {
+  name: string;
+  script: ChatScript;
+  /** The user's message; the script decides what the agent does with it */
+  userMessage?: string;
+  /** Turns seeded before the user's message */
+  history?: ConversationTurn[];
+  clock?: ClockConfig;
+  faults?: Fault[];
+  injections?: Injection[];
+  /** Return one message per failed expectation; an empty list means the case passed */
+  expect: (run: StubRun) => string[];
+}
+
+export interface StubRun {
+  runId: string;
+  response: AgentResponse;
+  /** The mock API's collections after the run (see `Store.snapshot()`) */
+  state: ReturnType<MockApi['store']['snapshot']>;
+}
+
+export interface StubSuite {
+  /** Shown in results and matched by `--filter`, e.g. `flight-booking` */
+  id: string;
+  /** The agent's tools, as its module exports them */
+  tools: StructuredToolInterface[];
+  cases: StubCase[];
+}
+
+export interface StubOutcome {
+  suite: string;
+  case: string;
+  /** Why the case failed; empty when it passed */
+  failures: string[];
+}
+
+export function defineStubs(suite: StubSuite): StubSuite {
+  return suite;
+}
+
+/**
+ * Run one case against `api`, which should be fresh or reset: cases see the
+ * state they leave behind, not each other's.
+ */
+export async function runStubCase(suite: StubSuite, stubCase: StubCase, api: MockApi): Promise<StubOutcome> {
+  const outcome = { suite: suite.id, case: stubCase.name };
+  const { runAgent } = createAgent({
+    tools: suite.tools,
+    systemPrompt: () => '',
+    model: { provider: 'stub', script: stubCase.name },
+    scripts: { [stubCase.name]: stubCase.script },
+  });
+  const runId = `stub:${suite.id}:${stubCase.name}`;
+
+  try {
+    const response = await runAgent({
+      runId,
+      userMessage: stubCase.userMessage ?? 'Go ahead.',
+      history: stubCase.history,
+      clock: stubCase.clock,
+      faults: stubCase.faults,
+      injections: stubCase.injections,
+    });
+    return { ...outcome, failures: stubCase.expect({ runId, response, state: api.store.snapshot() }) };
+  } catch (err) {
+    return { ...outcome, failures: [err instanceof Error ? err.message : String(err)] };
+  } finally {
+    clearVault(runId);
+    clearCallCounts(runId);
+    clearIdempotentResults(runId);
+    clearInputStats(runId);
+    clearTrajectory(runId);
+  }
+}
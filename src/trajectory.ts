@@ -0,0 +1,90 @@
+/**
+ * Trajectories
+ *
+ * What the agent did over a run, in order: each user message, each tool call
+ * with its arguments and result, and each reply. `runAgent` returns it with
+ * every response, built from the thread, so it includes calls that never
+ * reached a wrapped tool — faulted, rejected as invalid, or to unwrapped
+ * tools like `getRefundPolicy`.
+ *
+ * `runAgent` also records it under the run's `runId`, and the trajectory
+ * predicates in src/predicates.ts read it back by that id to check ordering
+ * and call counts next to the world-state checks.
+ */
+
+import type { ConversationTurn } from './conversation.js';
+import { isToolError } from './http.js';
+
+export type TrajectoryStep =
+  | { type: 'user'; content: string }
+  | { type: 'agent'; content: string }
+  | {
+      type: 'tool';
+      id: string;
+      name: string;
+      args: Record<string, unknown>;
+      /** Parsed result, or its text when it isn't JSON. Missing if the call never returned. */
+      result?: unknown;
+      /** The result was an `{ error }` */
+      failed: boolean;
+    };
+
+export type Trajectory = TrajectoryStep[];
+
+function parseResult(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/** Pair every tool call in the turns with its result. */
+export function toTrajectory(turns: ConversationTurn[]): Trajectory {
+  const results = new Map<string, unknown>();
+  for (const turn of turns) {
+    if (turn.role === 'tool') results.set(turn.toolCallId, parseResult(turn.content));
+  }
+
+  return turns.flatMap((turn): TrajectoryStep[] => {
+    switch (turn.role) {
+      case 'user':
+        return [{ type: 'user', content: turn.content }];
+      case 'assistant': {
+        const calls = (turn.toolCalls ?? []).map((call): TrajectoryStep => {
+          const result = results.get(call.id);
+          return { type: 'tool', ...call, ...(results.has(call.id) && { result }), failed: isToolError(result) };
+        });
+        return turn.content ? [{ type: 'agent', content: turn.content }, ...calls] : calls;
+      }
+      case 'tool':
+        return [];
+    }
+  });
+}
+
+/** The tool calls of a trajectory, in order. */
+export function toolCalls(trajectory: Trajectory): Array<Extract<TrajectoryStep, { type: 'tool' }>> {
+  return trajectory.filter((step): step is Extract<TrajectoryStep, { type: 'tool' }> => step.type === 'tool');
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+// Latest trajectory per run id; each turn's covers the whole thread so far
+const recorded = new Map<string, Trajectory>();
+
+export function recordTrajectory(runId: string, trajectory: Trajectory): void {
+  recorded.set(runId, trajectory);
+}
+
+/** The latest trajectory recorded for the `runId` `runAgent` was called with. */
+export function trajectoryFor(runId: string): Trajectory | undefined {
+  return recorded.get(runId);
+}
+
+/** Forget a run's trajectory. Call it when the run is over. */
+export function clearTrajectory(runId: string): void {
+  recorded.delete(runId);
+}
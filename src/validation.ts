@@ -0,0 +1,244 @@
+/**
+ * Input Validation
+ *
+ * Tool schemas say what a valid argument looks like, not just its type:
+ *
+ *   from: IataCodeSchema.describe('Departure airport code'),
+ *   departureDate: notBeforeToday(IsoDateSchema.describe('Departure date')),
+ *
+ * Checks that depend on the date — no departures in the past, no expired
+ * cards — are declared with markers like `notBeforeToday()` and run against
+ * the run's clock, so a pinned suite validates the same way every time.
+ *
+ * `validateInputs()` puts a layer in front of each tool that checks the input
+ * before anything else sees it. Invalid input comes back to the agent as an
+ * `invalid_input` error listing every field to fix, rather than the exception
+ * LangChain throws, and never reaches the API or the simulated world. Each
+ * run's calls are counted, so the runner can report how often an agent gets
+ * its tool input wrong.
+ */
+
+import type { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { clockFromConfig, localDate } from './clock.js';
+import { HttpError, toolError, type ToolErrorResult } from './http.js';
+import { layer } from './layers.js';
+import { isLuhnValid, isVaultToken } from './redaction.js';
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function isCalendarDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const days = month === 2 && !leap ? 28 : DAYS_IN_MONTH[month - 1];
+  return month >= 1 && month <= 12 && day >= 1 && day <= days;
+}
+
+/**
+ * Sensitive fields reach the layers under `protectInputs()` as vault tokens,
+ * so their format checks let tokens through.
+ */
+function sensitiveFormat(test: (value: string) => boolean, message: string) {
+  return z.string().refine((value) => isVaultToken(value) || test(value), message);
+}
+
+/** Three-letter IATA airport or city code, upper case. */
+export const IataCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Must be a 3-letter IATA code in capitals, e.g. SFO');
+
+/** A date that exists on the calendar, as YYYY-MM-DD. */
+export const IsoDateSchema = z
+  .string()
+  .refine(isCalendarDate, 'Must be a real calendar date in YYYY-MM-DD format, e.g. 2025-03-14');
+
+/** 24-hour time, as HH:MM. */
+export const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a 24-hour time in HH:MM format, e.g. 19:30');
+
+/** US ZIP code, five digits with an optional +4. */
+export const ZipCodeSchema = z.string().regex(/^\d{5}(-\d{4})?$/, 'Must be a US ZIP code, e.g. 94105 or 94105-1234');
+
+export const EmailSchema = sensitiveFormat(
+  (value) => /^[^\s@]+@[^\s@]+\.[A-Za-z]{2,}$/.test(value),
+  'Must be an email address, e.g. name@example.com'
+);
+
+/** Phone number in E.164 form: a plus sign, country code and number, no spaces. */
+export const PhoneSchema = sensitiveFormat(
+  (value) => /^\+[1-9]\d{7,14}$/.test(value),
+  'Must be an E.164 phone number with country code and no spaces, e.g. +14155550134'
+);
+
+/** Card number that passes the Luhn check. Spaces and dashes between digits are fine. */
+export const CardNumberSchema = sensitiveFormat((value) => {
+  const digits = value.replace(/[ -]/g, '');
+  return /^\d{13,19}$/.test(digits) && isLuhnValid(digits);
+}, 'Must be a valid card number (13-19 digits passing the Luhn check)');
+
+export const CardExpirySchema = sensitiveFormat(
+  (value) => /^(0[1-9]|1[0-2])\/\d{2}$/.test(value),
+  'Must be the card expiry in MM/YY format, e.g. 08/27'
+);
+
+export const CvvSchema = sensitiveFormat((value) => /^\d{3,4}$/.test(value), 'Must be the 3 or 4 digit card security code');
+
+// =============================================================================
+// Checks against the run's clock
+// =============================================================================
+
+/** Returns why `value` is invalid on `today` (YYYY-MM-DD), or nothing when it's fine. */
+type ClockCheck = (value: string, today: string) => string | undefined;
+
+const clockChecks = new WeakMap<z.ZodTypeAny, ClockCheck>();
+
+function onClock<T extends z.ZodTypeAny>(schema: T, check: ClockCheck): T {
+  clockChecks.set(schema, check);
+  return schema;
+}
+
+/** Mark a YYYY-MM-DD field that must be today or later, e.g. a travel date. */
+export function notBeforeToday<T extends z.ZodTypeAny>(schema: T): T {
+  return onClock(schema, (value, today) => (value < today ? `Must be today (${today}) or later` : undefined));
+}
+
+/** Mark a YYYY-MM-DD field that must be in the past, e.g. a date of birth. */
+export function beforeToday<T extends z.ZodTypeAny>(schema: T): T {
+  return onClock(schema, (value, today) => (value >= today ? `Must be before today (${today})` : undefined));
+}
+
+/** Mark an MM/YY card expiry that must not have passed. */
+export function notExpired<T extends z.ZodTypeAny>(schema: T): T {
+  return onClock(schema, (value, today) => {
+    const [month, year] = value.split('/');
+    return `20${year}-${month}` < today.slice(0, 7) ? 'The card has expired' : undefined;
+  });
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (clockChecks.has(schema)) return schema;
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+function clockIssues(schema: z.ZodTypeAny, value: unknown, today: string, path: PropertyKey[] = []): InputIssue[] {
+  if (value === null || value === undefined) return [];
+
+  const inner = unwrap(schema);
+  const check = clockChecks.get(inner);
+  if (check) {
+    const message = typeof value === 'string' ? check(value, today) : undefined;
+    return message ? [{ path: formatPath(path), message }] : [];
+  }
+  if (inner instanceof z.ZodObject && typeof value === 'object') {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    return Object.entries(value).flatMap(([key, v]) =>
+      shape[key] ? clockIssues(shape[key], v, today, [...path, key]) : []
+    );
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.flatMap((v, i) => clockIssues(inner.element, v, today, [...path, i]));
+  }
+  return [];
+}
+
+// =============================================================================
+// Validation layer
+// =============================================================================
+
+export interface InputIssue {
+  /** Field that needs fixing, e.g. `creditCard.expiry` or `passengers[1].name` */
+  path: string;
+  message: string;
+}
+
+export interface InvalidInputResult extends ToolErrorResult {
+  error: ToolErrorResult['error'] & { issues: InputIssue[] };
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map((key, i) => (typeof key === 'number' ? `[${key}]` : i === 0 ? String(key) : `.${String(key)}`)).join('');
+}
+
+function invalidInput(toolName: string, issues: InputIssue[]): InvalidInputResult {
+  const fields = issues.map((issue) => issue.path || 'input').join(', ');
+  const { error } = toolError(
+    new HttpError('invalid_request', `Invalid input for ${toolName}: fix ${fields} and call it again`, undefined, 'invalid_input')
+  );
+  return { error: { ...error, issues } };
+}
+
+// Tool calls and invalid inputs, per run
+const stats = new Map<string, InputStats>();
+
+function record(runId: string, toolName: string, valid: boolean) {
+  const run = stats.get(runId) ?? { calls: 0, invalid: 0, byTool: {} };
+  stats.set(runId, run);
+  run.calls++;
+  if (!valid) {
+    run.invalid++;
+    run.byTool[toolName] = (run.byTool[toolName] ?? 0) + 1;
+  }
+}
+
+/** Forget a run's input stats. Call it once `inputStats()` has been read. */
+export function clearInputStats(runId: string): void {
+  stats.delete(runId);
+}
+
+// What the layer's schema parses input into when the tool's own schema
+// rejects it, so the layer can answer instead of LangChain throwing
+class RejectedInput {
+  constructor(readonly issues: z.ZodIssue[]) {}
+}
+
+/**
+ * Put a validating layer in front of a tool. Apply it outermost, so invalid
+ * input is rejected before faults, tokenization or the simulation see it.
+ */
+export function validateInputs(inner: StructuredToolInterface): DynamicStructuredTool {
+  const schema = inner.schema as z.ZodTypeAny;
+  return layer(
+    inner,
+    async (input, next, config) => {
+      const issues =
+        input instanceof RejectedInput
+          ? input.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+          : clockIssues(schema, input, localDate(clockFromConfig(config)));
+      record(String(config.configurable?.thread_id ?? ''), inner.name, issues.length === 0);
+      return issues.length > 0 ? invalidInput(inner.name, issues) : next(input);
+    },
+    schema.catch(({ error }: { error: z.ZodError }) => new RejectedInput(error.issues))
+  );
+}
+
+export interface InputStats {
+  calls: number;
+  /** Calls rejected for invalid input */
+  invalid: number;
+  /** Rejected calls by tool name */
+  byTool: Record<string, number>;
+}
+
+/** Add up the counts of several runs or suites. */
+export function mergeInputStats(all: InputStats[]): InputStats {
+  const total: InputStats = { calls: 0, invalid: 0, byTool: {} };
+  for (const stats of all) {
+    total.calls += stats.calls;
+    total.invalid += stats.invalid;
+    for (const [name, count] of Object.entries(stats.byTool)) {
+      total.byTool[name] = (total.byTool[name] ?? 0) + count;
+    }
+  }
+  return total;
+}
+
+/** Tool calls and invalid inputs across the given runs. */
+export function inputStats(runIds: Iterable<string>): InputStats {
+  return mergeInputStats([...runIds].flatMap((runId) => stats.get(runId) ?? []));
+}